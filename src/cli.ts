@@ -1,23 +1,84 @@
 #!/usr/bin/env -S deno run --allow-read --allow-write
 
 import { parseArgs } from "https://deno.land/std@0.224.0/cli/parse_args.ts";
-import { basename } from "https://deno.land/std@0.224.0/path/basename.ts"; 
+import { basename } from "https://deno.land/std@0.224.0/path/basename.ts";
 import { scan, type ScannerOptions } from "./scanner.ts";
-import { findImporters, findDirectoryImporters } from "./resolver.ts";
+import {
+  explainImportPath,
+  findImporters,
+  findDirectoryImporters,
+  RESOLVE_EXTENSIONS,
+} from "./resolver.ts";
+import { isRemoteUrl } from "./remote.ts";
+import { findResolutionConfig, loadConfigFile } from "./config.ts";
+import { SOURCE_EXTENSIONS } from "./extractors.ts";
+import {
+  cycleKey,
+  findDependencies,
+  findImportCycles,
+  findOrphans,
+  findTransitiveImporters,
+  findUnusedExports,
+  readCycleBaseline,
+} from "./graph.ts";
 import {
   formatOutput,
   formatDirectoryOutput,
-  type ImporterResult, 
+  formatCyclesOutput,
+  formatDependencyOutput,
+  formatExplainOutput,
+  formatOrphansOutput,
+  formatUnusedExportsOutput,
+  formatTransitiveOutput,
+  type ImporterResult,
 } from "./output.ts";
 
 // Define types for our CLI options
 interface CliOptions {
+  /** "importers" to find importers of the target, "explain" to trace how a
+   * specifier imported by the target resolves, "deps" to list what the
+   * target imports, "cycles" to find import cycles under the root,
+   * "orphans" to find files under the root no entry point reaches,
+   * "unused-exports" to find exports under the root no file imports */
+  command:
+    | "importers"
+    | "explain"
+    | "deps"
+    | "cycles"
+    | "orphans"
+    | "unused-exports";
   target: string;
+  /** Specifier to explain (explain command only) */
+  specifier?: string;
   root: string;
   json: boolean;
   extensions: string[];
   ignore: string[];
   followSymlinks: boolean;
+  realPaths: boolean;
+  followBarrels: boolean;
+  /** Also report the files importing the importers (or, for deps, the
+   * imports of the imported files), recursively */
+  transitive: boolean;
+  /** Maximum distance of transitive importers or imports from the target */
+  depth?: number;
+  /** List external and unresolved imports separately (deps command only) */
+  external: boolean;
+  /** JSON output of a previous run listing the known cycles (cycles only) */
+  baseline?: string;
+  /** Exit with an error if cycles missing from the baseline are found */
+  failOnCycles: boolean;
+  /** Glob patterns of extra entry points (orphans and unused-exports) */
+  entries: string[];
+  symbol?: string;
+  runtimeOnly: boolean;
+  typesOnly: boolean;
+  includeDynamic: boolean;
+  excludeMocks: boolean;
+  conditions?: string[];
+  config?: string;
+  followRemote: boolean;
+  denoDir?: string;
   maxDepth?: number;
   concurrency: number;
   version: boolean;
@@ -25,7 +86,7 @@ interface CliOptions {
 }
 
 // Default values
-const DEFAULT_EXTENSIONS = [".js", ".jsx", ".ts", ".tsx", ".mjs", ".cjs"];
+const DEFAULT_EXTENSIONS = SOURCE_EXTENSIONS;
 const DEFAULT_IGNORE = ["node_modules", "dist"];
 const DEFAULT_CONCURRENCY = 4;
 
@@ -35,13 +96,38 @@ const VERSION = "0.1.0";
 // Help text
 const HELP_TEXT = `
 Usage: ${basename(Deno.execPath())} [options] <target> <root>
+       ${basename(Deno.execPath())} [options] explain <importer> <specifier>
+       ${basename(Deno.execPath())} [options] deps <file>
+       ${basename(Deno.execPath())} [options] cycles <root>
+       ${basename(Deno.execPath())} [options] orphans <root>
+       ${basename(Deno.execPath())} [options] unused-exports <root>
 
 Analyze import dependencies in your codebase.
 
 Arguments:
-  target                    The file or directory to search for imports
+  target                    The file or directory to search for imports, or
+                            a remote module URL or URL prefix
   root                      The root directory to scan
 
+Commands:
+  explain                   Show every step of resolving a specifier imported
+                            by a file (honors --json, --conditions, --config)
+  deps                      List the project files a file imports, with the
+                            specifier, line and kind of each import (honors
+                            --transitive, --depth, --external and the import
+                            filters)
+  cycles                    List the groups of files under the root that
+                            import each other, with one cycle of imports for
+                            each (use --runtime-only to ignore type imports)
+  orphans                   List the files under the root that no entry point
+                            reaches through imports: package.json main, bin
+                            and exports, deno.json tasks and exports, test
+                            files and --entry files
+  unused-exports            List the exports of the modules under the root
+                            that no file imports, directly or through
+                            re-exports; the exports of entry points are
+                            public and always used
+
 Options:
   --json                    Output results in JSON format
   --extensions <list>       Comma-separated list of file extensions to scan
@@ -49,6 +135,41 @@ Options:
   --ignore <list>           Comma-separated glob patterns to ignore
                             (default: ${DEFAULT_IGNORE.join(",")})
   --follow-symlinks         Follow symbolic links
+  --real-paths              Report the real path of imported files reached
+                            through symbolic links
+  --follow-barrels          Count imports through re-exporting barrel files
+                            (file targets only)
+  --transitive              Also report the files that import the importers,
+                            recursively, as a tree (not with
+                            --follow-barrels, --real-paths or --follow-remote)
+  --depth <number>          Maximum distance from the target for
+                            --transitive (implies --transitive)
+  --external                For deps, also list imports of packages and
+                            remote modules, and unresolved imports, separately
+  --baseline <file>         For cycles, JSON output of an earlier run listing
+                            the known cycles; the others are marked new
+  --fail-on-cycles          For cycles, exit with code 1 if new cycles (any
+                            cycles without --baseline) are found
+  --entry <list>            For orphans and unused-exports, comma-separated
+                            glob patterns of more entry points, relative to
+                            the root
+  --symbol <name>           Only report files importing this export of the
+                            target file (use "default" for the default export)
+  --runtime-only            Ignore type-only imports
+  --types-only              Only report type-only imports
+  --include-dynamic         Count dynamic import() calls; computed specifiers
+                            are reported as possible importers
+  --exclude-mocks           Ignore test-framework mocks and path references
+                            (jest.mock, vi.mock, require.resolve, ...)
+  --conditions <list>       Comma-separated package.json "exports" conditions
+                            to match, e.g. browser,development (default: node;
+                            "import"/"require" and "default" always apply)
+  --config <file>           Resolve every file with this import map, deno.json,
+                            tsconfig or .whoimportme.json instead of the
+                            nearest one
+  --follow-remote           For URL targets, follow imports between remote
+                            modules cached by Deno
+  --deno-dir <dir>          Deno cache directory (default: DENO_DIR)
   --max-depth <number>      Maximum directory depth to scan
   --concurrency <number>   Number of parallel workers (default: ${DEFAULT_CONCURRENCY})
   --version                 Show version information
@@ -58,6 +179,12 @@ Examples:
   ${basename(Deno.execPath())} src/main.ts .
   ${basename(Deno.execPath())} --json --extensions=.ts,.tsx src/index.ts ./src
   ${basename(Deno.execPath())} src/components .
+  ${basename(Deno.execPath())} https://deno.land/std@0.224.0 .
+  ${basename(Deno.execPath())} explain src/app.ts @/components/button
+  ${basename(Deno.execPath())} deps --transitive --external src/app.ts
+  ${basename(Deno.execPath())} cycles --runtime-only --fail-on-cycles src
+  ${basename(Deno.execPath())} orphans --entry "src/pages/**/*.tsx" .
+  ${basename(Deno.execPath())} unused-exports --json src
 `;
 
 /**
@@ -65,8 +192,35 @@ Examples:
  */
 export function parseArguments(args: string[]): CliOptions {
   const parsed = parseArgs(args, {
-    string: ["extensions", "ignore", "max-depth", "concurrency"],
-    boolean: ["json", "follow-symlinks", "version", "help"],
+    string: [
+      "extensions",
+      "ignore",
+      "max-depth",
+      "depth",
+      "concurrency",
+      "symbol",
+      "conditions",
+      "config",
+      "deno-dir",
+      "baseline",
+      "entry",
+    ],
+    boolean: [
+      "json",
+      "follow-symlinks",
+      "real-paths",
+      "follow-barrels",
+      "transitive",
+      "external",
+      "fail-on-cycles",
+      "runtime-only",
+      "types-only",
+      "include-dynamic",
+      "exclude-mocks",
+      "follow-remote",
+      "version",
+      "help",
+    ],
     alias: {
       "h": "help",
       "v": "version",
@@ -74,6 +228,16 @@ export function parseArguments(args: string[]): CliOptions {
     default: {
       "json": false,
       "follow-symlinks": false,
+      "real-paths": false,
+      "follow-barrels": false,
+      "transitive": false,
+      "external": false,
+      "fail-on-cycles": false,
+      "runtime-only": false,
+      "types-only": false,
+      "include-dynamic": false,
+      "exclude-mocks": false,
+      "follow-remote": false,
       "concurrency": DEFAULT_CONCURRENCY,
       "help": false,
       "version": false,
@@ -92,16 +256,53 @@ export function parseArguments(args: string[]): CliOptions {
     Deno.exit(0);
   }
 
+  // Commands other than finding importers come first
+  const first = parsed._[0];
+  const command = first === "explain" || first === "deps" ||
+      first === "cycles" || first === "orphans" || first === "unused-exports"
+    ? first
+    : "importers";
+  const positional = (command === "importers" ? parsed._ : parsed._.slice(1))
+    .map(String);
+
   // Validate required arguments
-  if (parsed._.length < 2 && !parsed.version && !parsed.help) {
+  if (command === "explain" && positional.length < 2) {
+    console.error("Error: explain requires an importer and a specifier");
+    console.error("Run with --help for usage information");
+    Deno.exit(1);
+  }
+  if (command === "deps" && positional.length < 1) {
+    console.error("Error: deps requires a file");
+    console.error("Run with --help for usage information");
+    Deno.exit(1);
+  }
+  if (
+    (command === "cycles" || command === "orphans" ||
+      command === "unused-exports") && positional.length < 1
+  ) {
+    console.error(`Error: ${command} requires a root directory`);
+    console.error("Run with --help for usage information");
+    Deno.exit(1);
+  }
+  if (
+    command === "importers" && positional.length < 2 && !parsed.version &&
+    !parsed.help
+  ) {
     console.error("Error: target and root arguments are required");
     console.error("Run with --help for usage information");
     Deno.exit(1);
   }
 
-  // Extract target and root from positional arguments
-  const target = parsed._[0] as string;
-  const root = parsed._[1] as string;
+  // Extract target and root from positional arguments; explain and deps
+  // resolve relative to the file and have no root to scan, and the other
+  // commands scan the root without a target
+  const target = positional[0];
+  const root = command === "importers"
+    ? positional[1]
+    : command === "explain" || command === "deps"
+    ? "."
+    : positional[0];
+  const specifier = command === "explain" ? positional[1] : undefined;
 
   // Parse extensions
   let extensions: string[] = DEFAULT_EXTENSIONS;
@@ -115,6 +316,57 @@ export function parseArguments(args: string[]): CliOptions {
     ignore = parsed.ignore.split(",").map((pattern: string) => pattern.trim());
   }
 
+  // Parse entry point patterns
+  let entries: string[] = [];
+  if (parsed.entry) {
+    entries = parsed.entry.split(",").map((pattern: string) => pattern.trim())
+      .filter((pattern: string) => pattern);
+  }
+
+  // Parse package export conditions
+  let conditions: string[] | undefined;
+  if (parsed.conditions) {
+    conditions = parsed.conditions.split(",").map((condition: string) =>
+      condition.trim()
+    ).filter((condition: string) => condition);
+  }
+
+  // Parse config override
+  let config: string | undefined;
+  if (parsed.config !== undefined) {
+    config = parsed.config.trim();
+    if (!config) {
+      console.error("Error: --config requires a file");
+      Deno.exit(1);
+    }
+  }
+
+  // Parse cycle baseline
+  let baseline: string | undefined;
+  if (parsed.baseline !== undefined) {
+    baseline = parsed.baseline.trim();
+    if (!baseline) {
+      console.error("Error: --baseline requires a file");
+      Deno.exit(1);
+    }
+  }
+
+  // Parse symbol
+  let symbol: string | undefined;
+  if (parsed.symbol !== undefined) {
+    symbol = parsed.symbol.trim();
+    if (!symbol) {
+      console.error("Error: --symbol requires an export name");
+      Deno.exit(1);
+    }
+  }
+
+  // Validate import kind filters
+  if (parsed["runtime-only"] && parsed["types-only"]) {
+    console.error("Error: --runtime-only and --types-only cannot be combined");
+    Deno.exit(1);
+  }
+
   // Parse max depth
   let maxDepth: number | undefined;
   if (parsed["max-depth"]) {
@@ -126,6 +378,16 @@ export function parseArguments(args: string[]): CliOptions {
     maxDepth = depth;
   }
 
+  // Parse transitive depth
+  let depth: number | undefined;
+  if (parsed.depth !== undefined) {
+    depth = parseInt(parsed.depth, 10);
+    if (isNaN(depth) || depth <= 0) {
+      console.error("Error: --depth must be a positive integer");
+      Deno.exit(1);
+    }
+  }
+
   // Parse concurrency
   let concurrency = DEFAULT_CONCURRENCY;
   if (parsed.concurrency) {
@@ -138,12 +400,31 @@ export function parseArguments(args: string[]): CliOptions {
   }
 
   return {
+    command,
     target,
+    specifier,
     root,
     json: !!parsed.json,
     extensions,
     ignore,
     followSymlinks: !!parsed["follow-symlinks"],
+    realPaths: !!parsed["real-paths"],
+    followBarrels: !!parsed["follow-barrels"],
+    transitive: !!parsed.transitive || depth !== undefined,
+    depth,
+    external: !!parsed.external,
+    baseline,
+    failOnCycles: !!parsed["fail-on-cycles"],
+    entries,
+    symbol,
+    runtimeOnly: !!parsed["runtime-only"],
+    typesOnly: !!parsed["types-only"],
+    includeDynamic: !!parsed["include-dynamic"],
+    excludeMocks: !!parsed["exclude-mocks"],
+    conditions,
+    config,
+    followRemote: !!parsed["follow-remote"],
+    denoDir: parsed["deno-dir"] || undefined,
     maxDepth,
     concurrency,
     version: !!parsed.version,
@@ -154,42 +435,98 @@ export function parseArguments(args: string[]): CliOptions {
 /**
  * Validate arguments
  */
-function validateArguments(options: CliOptions): void {
-  // Check if target file or directory exists
-  try {
-    const stat = Deno.statSync(options.target);
-    if (!stat.isFile && !stat.isDirectory) {
-      console.error(`Error: target '${options.target}' is not a file or directory`);
+async function validateArguments(options: CliOptions): Promise<void> {
+  // Transitive importers are found from the import graph, which does not
+  // follow barrels, real paths or remote modules
+  if (options.command === "importers" && options.transitive) {
+    const flag = options.followBarrels
+      ? "--follow-barrels"
+      : options.realPaths
+      ? "--real-paths"
+      : options.followRemote
+      ? "--follow-remote"
+      : undefined;
+    if (flag !== undefined) {
+      console.error(
+        `Error: ${flag} cannot be combined with --transitive or --depth`,
+      );
       Deno.exit(1);
     }
-  } catch (error) {
-    if (error instanceof Deno.errors.NotFound) {
-      // Try to resolve target file with different extensions (only for files)
-      const extensions = [".ts", ".tsx", ".js", ".jsx", ".mjs", ".cjs"];
-      // Check if the path already has an extension
-      const hasExtension = /\.[^/.]+$/.test(options.target);
-      const base = hasExtension ? options.target.replace(/\.[^/.]+$/, "") : options.target;
+  }
+
+  // Check if config file exists
+  if (options.config !== undefined) {
+    try {
+      if (!Deno.statSync(options.config).isFile) {
+        console.error(`Error: config '${options.config}' is not a file`);
+        Deno.exit(1);
+      }
+    } catch (error) {
+      if (error instanceof Deno.errors.NotFound) {
+        console.error(`Error: config file '${options.config}' not found`);
+        Deno.exit(1);
+      }
+      throw error;
+    }
+  }
+
+  // Check if target file or directory exists; URL targets name remote
+  // modules, which are not checked
+  if (!isRemoteUrl(options.target)) {
+    try {
+      const stat = Deno.statSync(options.target);
+      if (!stat.isFile && !stat.isDirectory) {
+        console.error(`Error: target '${options.target}' is not a file or directory`);
+        Deno.exit(1);
+      }
+      // Barrels are followed to files and symbols exported by files, not by
+      // directories
+      if (options.command === "importers" && stat.isDirectory) {
+        const flag = options.followBarrels
+          ? "--follow-barrels"
+          : options.symbol !== undefined
+          ? "--symbol"
+          : undefined;
+        if (flag !== undefined) {
+          console.error(`Error: ${flag} requires a file target`);
+          Deno.exit(1);
+        }
+      }
+    } catch (error) {
+      if (error instanceof Deno.errors.NotFound) {
+        // Try to resolve target file with different extensions (only for files)
+        // Check if the path already has an extension
+        const hasExtension = /\.[^/.]+$/.test(options.target);
+        const base = hasExtension ? options.target.replace(/\.[^/.]+$/, "") : options.target;
       
-      let found = false;
-      for (const ext of extensions) {
-        const withExt = base + ext;
-        try {
-          const stat = Deno.statSync(withExt);
-          if (stat.isFile) {
-            found = true;
-            break;
+        // Extensions of the resolver configuration nearest to the target
+        const { resolverConfig } = await findResolutionConfig(
+          options.target,
+          options.config === undefined
+            ? undefined
+            : await loadConfigFile(options.config),
+        );
+        let found = false;
+        for (const ext of resolverConfig?.extensions ?? RESOLVE_EXTENSIONS) {
+          const withExt = base + ext;
+          try {
+            const stat = Deno.statSync(withExt);
+            if (stat.isFile) {
+              found = true;
+              break;
+            }
+          } catch {
+            // File doesn't exist with this extension, continue to next
           }
-        } catch {
-          // File doesn't exist with this extension, continue to next
         }
-      }
       
-      if (!found) {
-        console.error(`Error: target file or directory '${options.target}' not found`);
-        Deno.exit(1);
+        if (!found) {
+          console.error(`Error: target file or directory '${options.target}' not found`);
+          Deno.exit(1);
+        }
+      } else {
+        throw error;
       }
-    } else {
-      throw error;
     }
   }
 
@@ -218,11 +555,151 @@ async function main(): Promise<void> {
     const options = parseArguments(Deno.args);
 
     // Validate arguments
-    validateArguments(options);
+    await validateArguments(options);
 
-    // Check if target is a directory
-    const targetStat = Deno.statSync(options.target);
-    const isTargetDirectory = targetStat.isDirectory;
+    if (options.command === "explain") {
+      const explanation = await explainImportPath(
+        options.target,
+        options.specifier!,
+        { conditions: options.conditions, config: options.config },
+      );
+      formatExplainOutput(explanation, options.json);
+      return;
+    }
+
+    if (options.command === "deps") {
+      const { dependencies, external, unresolved } = await findDependencies(
+        options.target,
+        {
+          transitive: options.transitive,
+          depth: options.depth,
+          runtimeOnly: options.runtimeOnly,
+          typesOnly: options.typesOnly,
+          includeDynamic: options.includeDynamic,
+          excludeMocks: options.excludeMocks,
+          conditions: options.conditions,
+          config: options.config,
+        },
+      );
+      formatDependencyOutput(
+        {
+          file: options.target,
+          transitive: options.transitive,
+          depth: options.depth,
+          count: dependencies.length,
+          dependencies,
+          external: options.external ? external : undefined,
+          unresolved: options.external ? unresolved : undefined,
+        },
+        options.json,
+      );
+      return;
+    }
+
+    if (options.command === "unused-exports") {
+      const files = await scan(options.root, {
+        extensions: options.extensions,
+        ignore: options.ignore,
+        followSymlinks: options.followSymlinks,
+        maxDepth: options.maxDepth,
+        concurrency: options.concurrency,
+      });
+      const unused = await findUnusedExports(files, options.root, {
+        entries: options.entries,
+        runtimeOnly: options.runtimeOnly,
+        typesOnly: options.typesOnly,
+        excludeMocks: options.excludeMocks,
+        conditions: options.conditions,
+        config: options.config,
+      });
+      formatUnusedExportsOutput(
+        { root: options.root, count: unused.length, exports: unused },
+        options.json,
+      );
+      return;
+    }
+
+    if (options.command === "orphans") {
+      const files = await scan(options.root, {
+        extensions: options.extensions,
+        ignore: options.ignore,
+        followSymlinks: options.followSymlinks,
+        maxDepth: options.maxDepth,
+        concurrency: options.concurrency,
+      });
+      const { entries, orphans, unimported, dynamicOnly } = await findOrphans(
+        files,
+        options.root,
+        {
+          entries: options.entries,
+          runtimeOnly: options.runtimeOnly,
+          typesOnly: options.typesOnly,
+          excludeMocks: options.excludeMocks,
+          conditions: options.conditions,
+          config: options.config,
+        },
+      );
+      formatOrphansOutput(
+        {
+          root: options.root,
+          files: files.length,
+          entries,
+          count: orphans.length,
+          orphans,
+          unimported,
+          dynamicOnly,
+        },
+        options.json,
+      );
+      return;
+    }
+
+    if (options.command === "cycles") {
+      const files = await scan(options.root, {
+        extensions: options.extensions,
+        ignore: options.ignore,
+        followSymlinks: options.followSymlinks,
+        maxDepth: options.maxDepth,
+        concurrency: options.concurrency,
+      });
+      const cycles = await findImportCycles(files, {
+        runtimeOnly: options.runtimeOnly,
+        typesOnly: options.typesOnly,
+        includeDynamic: options.includeDynamic,
+        excludeMocks: options.excludeMocks,
+        conditions: options.conditions,
+        config: options.config,
+      });
+
+      // Cycles missing from the baseline are new
+      let newCount: number | undefined;
+      if (options.baseline !== undefined) {
+        const known = await readCycleBaseline(options.baseline);
+        for (const cycle of cycles) {
+          cycle.isNew = !known.has(cycleKey(cycle.files, options.root));
+        }
+        newCount = cycles.filter((cycle) => cycle.isNew).length;
+      }
+
+      formatCyclesOutput(
+        { root: options.root, count: cycles.length, newCount, cycles },
+        options.json,
+      );
+      if (options.failOnCycles && (newCount ?? cycles.length) > 0) {
+        Deno.exit(1);
+      }
+      return;
+    }
+
+    // Check if target is a directory; targets without their extension are
+    // files
+    let isTargetDirectory = false;
+    try {
+      isTargetDirectory = !isRemoteUrl(options.target) &&
+        Deno.statSync(options.target).isDirectory;
+    } catch {
+      // Resolved with the module extensions by findImporters
+    }
 
     // Prepare scanner options
     const scannerOptions: ScannerOptions = {
@@ -236,12 +713,50 @@ async function main(): Promise<void> {
     // Scan for files
     const files = await scan(options.root, scannerOptions);
 
-    if (isTargetDirectory) {
+    if (options.transitive) {
+      // Find direct and indirect importers of the file or directory
+      const importers = await findTransitiveImporters(
+        options.target,
+        files,
+        options.root,
+        {
+          symbol: options.symbol,
+          depth: options.depth,
+          runtimeOnly: options.runtimeOnly,
+          typesOnly: options.typesOnly,
+          includeDynamic: options.includeDynamic,
+          excludeMocks: options.excludeMocks,
+          conditions: options.conditions,
+          config: options.config,
+        },
+      );
+
+      // Format and display results
+      formatTransitiveOutput(
+        {
+          target: options.target,
+          root: options.root,
+          depth: options.depth,
+          count: importers.length,
+          importers,
+        },
+        options.json,
+      );
+    } else if (isTargetDirectory) {
       // Find directory importers
       const results = await findDirectoryImporters(
         options.target,
         files,
         options.root,
+        {
+          runtimeOnly: options.runtimeOnly,
+          typesOnly: options.typesOnly,
+          includeDynamic: options.includeDynamic,
+          excludeMocks: options.excludeMocks,
+          conditions: options.conditions,
+          config: options.config,
+          realPaths: options.realPaths,
+        },
       );
 
       // Format and display results
@@ -252,15 +767,45 @@ async function main(): Promise<void> {
         options.target,
         files,
         options.root,
+        {
+          followBarrels: options.followBarrels,
+          symbol: options.symbol,
+          runtimeOnly: options.runtimeOnly,
+          typesOnly: options.typesOnly,
+          includeDynamic: options.includeDynamic,
+          excludeMocks: options.excludeMocks,
+          conditions: options.conditions,
+          config: options.config,
+          realPaths: options.realPaths,
+          followRemote: options.followRemote,
+          denoDir: options.denoDir,
+        },
       );
 
       // Transform results for output formatter
-      const importerPaths = resolvedImporters.map((imp) => imp.sourceFile);
+      const importerPaths = [
+        ...new Set(resolvedImporters.map((imp) => imp.sourceFile)),
+      ];
       const results: ImporterResult = {
         target: options.target,
         root: options.root,
         count: importerPaths.length,
         importers: importerPaths,
+        symbol: options.symbol,
+        references: resolvedImporters.map((imp) => ({
+          sourceFile: imp.sourceFile,
+          importPath: imp.importPath,
+          lineNumber: imp.lineNumber,
+          column: imp.column,
+          edge: imp.edge,
+          via: imp.via,
+          symbols: imp.symbols,
+          importKind: imp.importKind,
+          isDynamic: imp.isDynamic,
+          possible: imp.possible,
+          resolvedPath: options.realPaths ? imp.resolvedPath : undefined,
+          realPath: imp.realPath,
+        })),
       };
 
       // Format and display results
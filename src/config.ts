@@ -0,0 +1,193 @@
+/**
+ * Configuration discovery for whoimportme
+ *
+ * Each importing file is resolved with the import map, tsconfig and
+ * `.whoimportme.json` nearest to it, found by walking up from its directory,
+ * so that every package of a monorepo can have its own configuration. Parsed
+ * configurations are cached.
+ */
+
+import {
+  basename,
+  dirname,
+  join,
+  resolve,
+} from "https://deno.land/std@0.224.0/path/mod.ts";
+import { existsSync } from "https://deno.land/std@0.224.0/fs/exists.ts";
+import { parseJsonc } from "./jsonc.ts";
+import {
+  findImportMap,
+  type ImportMap,
+  readDenoConfig,
+  readImportMap,
+} from "./importmap.ts";
+import { readTsConfig, type TsConfig } from "./tsconfig.ts";
+import {
+  readResolverConfig,
+  RESOLVER_CONFIG_FILE,
+  type ResolverConfig,
+} from "./resolverconfig.ts";
+
+/**
+ * Configuration used to resolve the imports of a file
+ */
+export interface ResolutionConfig {
+  /** Import map, or null if there is none */
+  importMap: ImportMap | null;
+  /** tsconfig, or null if there is none */
+  tsConfig: TsConfig | null;
+  /** `resolve` section of `.whoimportme.json`, or null if there is none */
+  resolverConfig: ResolverConfig | null;
+}
+
+const importMapCache = new Map<string, Promise<ImportMap | null>>();
+const tsConfigCache = new Map<string, Promise<TsConfig | null>>();
+const resolverConfigCache = new Map<string, Promise<ResolverConfig | null>>();
+
+/**
+ * Find the configuration nearest to a file
+ * @param filePath Path of the importing file
+ * @param override Configuration that replaces discovery, for the kinds of
+ * configuration it defines
+ * @returns The import map, tsconfig and resolver configuration to resolve the
+ * file's imports with
+ */
+export async function findResolutionConfig(
+  filePath: string,
+  override?: Partial<ResolutionConfig>,
+): Promise<ResolutionConfig> {
+  const directory = dirname(resolve(filePath));
+  return {
+    importMap: override?.importMap !== undefined
+      ? override.importMap
+      : await findNearestImportMap(directory),
+    tsConfig: override?.tsConfig !== undefined
+      ? override.tsConfig
+      : await findNearestTsConfig(directory),
+    resolverConfig: override?.resolverConfig !== undefined
+      ? override.resolverConfig
+      : await findNearestResolverConfig(directory),
+  };
+}
+
+/**
+ * Find the import map of a directory or its nearest ancestor
+ * @param directory Directory the lookup starts in
+ * @returns The import map, or null if there is none
+ */
+export function findNearestImportMap(
+  directory: string,
+): Promise<ImportMap | null> {
+  return findNearest(importMapCache, resolve(directory), async (dir) => {
+    try {
+      return await findImportMap(dir);
+    } catch (error) {
+      console.warn(
+        `Warning: Could not load import map in ${dir}:`,
+        (error as Error).message,
+      );
+      return null;
+    }
+  });
+}
+
+/**
+ * Find the tsconfig.json of a directory or its nearest ancestor
+ * @param directory Directory the lookup starts in
+ * @returns The tsconfig with its `extends` chain applied, or null if there is
+ * none
+ */
+export function findNearestTsConfig(
+  directory: string,
+): Promise<TsConfig | null> {
+  return findNearest(tsConfigCache, resolve(directory), async (dir) => {
+    const path = join(dir, "tsconfig.json");
+    if (!existsSync(path)) {
+      return null;
+    }
+    try {
+      return await readTsConfig(path);
+    } catch (error) {
+      console.warn(
+        `Warning: Could not load tsconfig ${path}:`,
+        (error as Error).message,
+      );
+      return null;
+    }
+  });
+}
+
+/**
+ * Find the resolver configuration of a directory or its nearest ancestor
+ * @param directory Directory the lookup starts in
+ * @returns The `resolve` section of the nearest `.whoimportme.json` that has
+ * one, or null if there is none
+ */
+export function findNearestResolverConfig(
+  directory: string,
+): Promise<ResolverConfig | null> {
+  return findNearest(resolverConfigCache, resolve(directory), async (dir) => {
+    const path = join(dir, RESOLVER_CONFIG_FILE);
+    if (!existsSync(path)) {
+      return null;
+    }
+    try {
+      return await readResolverConfig(path);
+    } catch (error) {
+      console.warn(
+        `Warning: Could not load resolver config ${path}:`,
+        (error as Error).message,
+      );
+      return null;
+    }
+  });
+}
+
+/**
+ * Load a configuration file given explicitly, such as with `--config`
+ *
+ * `.whoimportme.json` files are resolver configurations; Deno configuration
+ * files and files with `imports` or `scopes` are import maps; any other file
+ * is a tsconfig.
+ * @param path Path of the configuration file
+ * @returns The configuration the file defines
+ * @throws {Error} If the file cannot be read or parsed
+ */
+export async function loadConfigFile(
+  path: string,
+): Promise<Partial<ResolutionConfig>> {
+  if (basename(path) === RESOLVER_CONFIG_FILE) {
+    return { resolverConfig: await readResolverConfig(path) };
+  }
+  if (/^deno\.jsonc?$/.test(basename(path))) {
+    return { importMap: await readDenoConfig(path) };
+  }
+  const content = parseJsonc(await Deno.readTextFile(path));
+  if (
+    content && typeof content === "object" &&
+    ("imports" in content || "scopes" in content)
+  ) {
+    return { importMap: await readImportMap(path) };
+  }
+  return { tsConfig: await readTsConfig(path) };
+}
+
+/**
+ * Look up a configuration in a directory and its ancestors, caching the
+ * result for every directory visited
+ */
+function findNearest<T>(
+  cache: Map<string, Promise<T | null>>,
+  directory: string,
+  load: (directory: string) => Promise<T | null>,
+): Promise<T | null> {
+  let result = cache.get(directory);
+  if (!result) {
+    const parent = dirname(directory);
+    result = load(directory).then((config) =>
+      config ?? (parent === directory ? null : findNearest(cache, parent, load))
+    );
+    cache.set(directory, result);
+  }
+  return result;
+}
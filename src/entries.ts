@@ -0,0 +1,185 @@
+/**
+ * Entry points for whoimportme
+ *
+ * Finds the files a project is run or loaded from: the files given on the
+ * command line, the files `deno.json` tasks run, the `main`, `bin` and
+ * `exports` of package.json (and the `exports` of deno.json), and test files.
+ * Every other file must be reached from these through imports to be used.
+ */
+
+import {
+  basename,
+  dirname,
+  join,
+  relative,
+  resolve,
+  SEPARATOR,
+} from "https://deno.land/std@0.224.0/path/mod.ts";
+import { globToRegExp } from "https://deno.land/std@0.224.0/path/glob_to_regexp.ts";
+import { parseJsonc } from "./jsonc.ts";
+import { loadPackageJson, type PackageTarget } from "./packages.ts";
+import { canonicalPath, isWithinDirectory } from "./paths.ts";
+import { resolveImportPath } from "./resolver.ts";
+import type { EntryPoint } from "./output.ts";
+
+/**
+ * Names of the Deno configuration files read for tasks and exports
+ */
+const DENO_CONFIG_FILES = ["deno.json", "deno.jsonc"];
+
+/**
+ * The fields of a Deno configuration file that name entry points
+ */
+interface DenoManifest {
+  tasks?: Record<string, string | { command?: string }>;
+  exports?: string | Record<string, string>;
+}
+
+/**
+ * Whether a file is a test file, by the naming conventions of Deno
+ * (`*_test.ts`, `test.ts`), Jest and Vitest (`*.test.ts`, `*.spec.ts`,
+ * `__tests__/`)
+ * @param path Path of the file
+ */
+export function isTestFile(path: string): boolean {
+  return /(^|[._])(test|spec)\.[cm]?[jt]sx?$/.test(basename(path)) ||
+    path.split(SEPARATOR).includes("__tests__");
+}
+
+/**
+ * Find the entry points among the scanned files
+ * @param files Files scanned from the root
+ * @param rootPath Root directory of the scan
+ * @param patterns Glob patterns, relative to the root, of files to use as
+ * entry points besides the detected ones
+ * @returns The entry points, each once, in the order of the files
+ */
+export async function findEntryPoints(
+  files: string[],
+  rootPath: string,
+  patterns: string[] = [],
+): Promise<EntryPoint[]> {
+  const scanned = new Map(files.map((file) => [canonicalPath(file), file]));
+  const reasons = new Map<string, string>();
+  const add = (path: string | null, reason: string) => {
+    const file = path === null ? undefined : scanned.get(canonicalPath(path));
+    if (file !== undefined && !reasons.has(file)) {
+      reasons.set(file, reason);
+    }
+  };
+
+  // Files given on the command line
+  const root = resolve(rootPath);
+  const regexes = patterns.map((pattern) =>
+    globToRegExp(pattern, { extended: true, globstar: true })
+  );
+  for (const file of files) {
+    const pattern = regexes.findIndex((regex) =>
+      regex.test(relative(root, resolve(file)))
+    );
+    if (pattern !== -1) {
+      add(file, `--entry ${patterns[pattern]}`);
+    }
+  }
+
+  // Manifests in the root and in every directory holding scanned files
+  const directories = new Set([root]);
+  for (const file of files) {
+    for (
+      let directory = dirname(resolve(file));
+      isWithinDirectory(directory, root) && !directories.has(directory);
+      directory = dirname(directory)
+    ) {
+      directories.add(directory);
+    }
+  }
+  for (const directory of [...directories].sort()) {
+    const packageJson = loadPackageJson(directory);
+    if (packageJson?.main !== undefined) {
+      add(resolveEntry(directory, packageJson.main), "package.json main");
+    }
+    for (const path of collectPaths(packageJson?.bin)) {
+      add(resolveEntry(directory, path), "package.json bin");
+    }
+    for (const path of collectPaths(packageJson?.exports)) {
+      add(resolveEntry(directory, path), "package.json exports");
+    }
+
+    for (const name of DENO_CONFIG_FILES) {
+      const denoManifest = await readDenoManifest(join(directory, name));
+      if (denoManifest === null) {
+        continue;
+      }
+      for (const [task, command] of Object.entries(denoManifest.tasks ?? {})) {
+        const line = typeof command === "string" ? command : command.command;
+        for (const word of line?.split(/\s+/) ?? []) {
+          add(
+            resolveEntry(directory, word.replace(/^["']|["']$/g, "")),
+            `${name} task "${task}"`,
+          );
+        }
+      }
+      for (const path of collectPaths(denoManifest.exports)) {
+        add(resolveEntry(directory, path), `${name} exports`);
+      }
+    }
+  }
+
+  // Test files
+  for (const file of files) {
+    if (isTestFile(file)) {
+      add(file, "test file");
+    }
+  }
+
+  return files
+    .filter((file) => reasons.has(file))
+    .map((file) => ({ file, reason: reasons.get(file)! }));
+}
+
+/**
+ * Resolve a path named by a manifest the way an import of it would, trying
+ * the extensions and index files
+ * @param directory Directory of the manifest
+ * @param path The path, relative to the directory
+ * @returns The resolved path, or null for words that are not paths
+ */
+function resolveEntry(directory: string, path: string): string | null {
+  if (!/^[\w.@/-]+$/.test(path) || /^-|:/.test(path)) {
+    return null;
+  }
+  return resolveImportPath(
+    join(directory, "package.json"),
+    path.startsWith(".") ? path : `./${path}`,
+  );
+}
+
+/**
+ * Collect the paths of a package.json `bin` or `exports` field, whatever its
+ * shape: a path, a map of names or subpaths, or nested conditions
+ * @param target The field
+ */
+function collectPaths(target: PackageTarget | undefined): string[] {
+  if (typeof target === "string") {
+    return [target];
+  }
+  if (target === null || target === undefined) {
+    return [];
+  }
+  return (Array.isArray(target) ? target : Object.values(target))
+    .flatMap(collectPaths);
+}
+
+/**
+ * Read the tasks and exports of a Deno configuration file
+ * @param path Path of the file
+ * @returns The fields, or null if the file is missing or invalid
+ */
+async function readDenoManifest(path: string): Promise<DenoManifest | null> {
+  try {
+    return parseJsonc(await Deno.readTextFile(path)) as DenoManifest;
+  } catch {
+    // Missing or invalid configuration
+    return null;
+  }
+}
@@ -0,0 +1,507 @@
+/**
+ * Source extractors for whoimportme
+ *
+ * Single-file components embed their JavaScript or TypeScript in a host
+ * format. The extractors pull those script blocks out and run them through
+ * the import parser, mapping line numbers back to the original file.
+ * Stylesheets get a scanner of their own for `@import`, `@use`, `@forward`
+ * and `url()` references, and HTML pages for the modules their `<script>` and
+ * `<link>` elements load.
+ */
+
+import { extname } from "https://deno.land/std@0.224.0/path/mod.ts";
+import {
+  type EdgeKind,
+  extractImports,
+  type ImportKind,
+  type ImportStatement,
+} from "./parser.ts";
+
+/**
+ * Interface representing a block of script code embedded in another file
+ */
+export interface ScriptBlock {
+  /** The script code */
+  code: string;
+  /** Line of the first character of the code in the host file (1-based) */
+  line: number;
+  /** Column of the first character of the code in the host file (1-based) */
+  column: number;
+}
+
+/**
+ * Extensions of JavaScript and TypeScript modules
+ */
+export const MODULE_EXTENSIONS = [".ts", ".tsx", ".js", ".jsx", ".mjs", ".cjs"];
+
+/**
+ * Extensions of the single-file component formats with embedded scripts
+ */
+export const COMPONENT_EXTENSIONS = [".vue", ".svelte", ".astro", ".mdx"];
+
+/**
+ * Extensions of the stylesheet formats
+ */
+export const STYLESHEET_EXTENSIONS = [".css", ".scss", ".sass", ".less"];
+
+/**
+ * Extensions of HTML pages
+ */
+export const HTML_EXTENSIONS = [".html", ".htm"];
+
+/**
+ * Extensions of every format imports are extracted from
+ */
+export const SOURCE_EXTENSIONS = [
+  ...MODULE_EXTENSIONS,
+  ...COMPONENT_EXTENSIONS,
+  ...STYLESHEET_EXTENSIONS,
+  ...HTML_EXTENSIONS,
+];
+
+/**
+ * `type` attribute values of `<script>` elements that contain JavaScript
+ */
+const SCRIPT_TYPES = [
+  "",
+  "module",
+  "text/javascript",
+  "application/javascript",
+];
+
+/**
+ * `rel` attribute values of `<link>` elements that load a module or stylesheet
+ */
+const LINK_RELS = ["modulepreload", "stylesheet"];
+
+/**
+ * Stylesheet at-rules that load another stylesheet
+ */
+const STYLESHEET_RULE = /@(import|use|forward)(?![\w-])/iy;
+const URL_FUNCTION = /url\(\s*/iy;
+
+/**
+ * Extract all import statements from the contents of a file, choosing the
+ * extractor from the file extension
+ * @param filePath Path of the file, used to pick the extractor
+ * @param content Contents of the file
+ * @returns Array of import statements with positions in the original file
+ */
+export function extractFileImports(
+  filePath: string,
+  content: string,
+): ImportStatement[] {
+  const extension = extname(filePath).toLowerCase();
+  if (STYLESHEET_EXTENSIONS.includes(extension)) {
+    return extractStylesheetImports(content, extension !== ".css");
+  }
+
+  const blocks = extractScriptBlocks(filePath, content);
+  if (blocks === null) {
+    return extractImports(content);
+  }
+  const imports = blocks.flatMap((block) =>
+    extractImports(block.code).map((imp) => ({
+      ...imp,
+      lineNumber: block.line + imp.lineNumber - 1,
+      column: imp.lineNumber === 1 ? block.column + imp.column - 1 : imp.column,
+    }))
+  );
+
+  if (HTML_EXTENSIONS.includes(extension)) {
+    return [...extractHtmlReferences(content), ...imports].sort((a, b) =>
+      a.lineNumber - b.lineNumber || a.column - b.column
+    );
+  }
+  return imports;
+}
+
+/**
+ * Extract the script blocks of a single-file component or the inline scripts
+ * of an HTML page
+ * @param filePath Path of the file, used to detect its format
+ * @param content Contents of the file
+ * @returns The script blocks, or null if the whole file is script code
+ */
+export function extractScriptBlocks(
+  filePath: string,
+  content: string,
+): ScriptBlock[] | null {
+  switch (extname(filePath).toLowerCase()) {
+    case ".vue":
+    case ".svelte":
+      return extractScriptTags(content);
+    case ".astro":
+      return [...extractFrontmatter(content), ...extractScriptTags(content)];
+    case ".mdx":
+      return extractMdxEsm(content);
+    case ".html":
+    case ".htm":
+      return extractScriptTags(maskHtmlComments(content), true);
+    default:
+      return null;
+  }
+}
+
+/**
+ * Extract the contents of every `<script>` element, e.g. both `<script>` and
+ * `<script setup>` in a Vue component
+ * @param content Contents of the file
+ * @param inlineOnly Whether to skip external (`src`) and non-JavaScript
+ * scripts, as needed for HTML pages
+ */
+function extractScriptTags(content: string, inlineOnly = false): ScriptBlock[] {
+  const blocks: ScriptBlock[] = [];
+  const scriptPattern = /<script\b([^>]*)>([\s\S]*?)<\/script\s*>/gi;
+  for (const match of content.matchAll(scriptPattern)) {
+    if (inlineOnly) {
+      const attributes = parseAttributes(match[1], 0);
+      if (attributes.has("src") || !isScriptType(attributes)) {
+        continue;
+      }
+    }
+    const offset = match.index! + match[0].indexOf(">") + 1;
+    blocks.push({ code: match[2], ...positionAt(content, offset) });
+  }
+  return blocks;
+}
+
+/**
+ * Extract the `---` fenced frontmatter script of an Astro component
+ */
+function extractFrontmatter(content: string): ScriptBlock[] {
+  const match = content.match(/^\s*---[^\S\n]*\n([\s\S]*?)\n---/);
+  if (!match) {
+    return [];
+  }
+  const offset = match[0].indexOf("\n") + 1;
+  return [{ code: match[1], ...positionAt(content, offset) }];
+}
+
+/**
+ * Extract the ESM blocks of an MDX document: paragraphs starting with
+ * `import` or `export`, outside of fenced code blocks
+ */
+function extractMdxEsm(content: string): ScriptBlock[] {
+  const blocks: ScriptBlock[] = [];
+  const lines = content.split("\n");
+  let fence: string | null = null;
+  let block: { lines: string[]; line: number } | null = null;
+
+  const flush = () => {
+    if (block) {
+      blocks.push({
+        code: block.lines.join("\n"),
+        line: block.line,
+        column: 1,
+      });
+      block = null;
+    }
+  };
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+
+    // Fenced code blocks never contain ESM
+    const fenceMatch = line.match(/^\s*(`{3,}|~{3,})/);
+    if (fence) {
+      if (fenceMatch && fenceMatch[1].startsWith(fence)) {
+        fence = null;
+      }
+      continue;
+    }
+    if (fenceMatch) {
+      flush();
+      fence = fenceMatch[1];
+      continue;
+    }
+
+    if (!line.trim()) {
+      flush();
+    } else if (block) {
+      block.lines.push(line);
+    } else if (/^(import|export)\b/.test(line)) {
+      block = { lines: [line], line: i + 1 };
+    }
+  }
+  flush();
+
+  return blocks;
+}
+
+/**
+ * Extract the modules and stylesheets an HTML page loads through
+ * `<script src>`, `<link rel="modulepreload">` and
+ * `<link rel="stylesheet">` elements
+ *
+ * References are created with the `html` edge kind. Bare URLs are relative to
+ * the page and are returned with a leading `./`; remote URLs are skipped.
+ * @param source HTML source code
+ * @returns Array of import statements in source order
+ */
+export function extractHtmlReferences(source: string): ImportStatement[] {
+  const imports: ImportStatement[] = [];
+  const elementPattern = /<(script|link)\b([^>]*)>/gi;
+
+  for (const match of maskHtmlComments(source).matchAll(elementPattern)) {
+    const attributes = parseAttributes(
+      match[2],
+      match.index! + match[1].length + 1,
+    );
+    const reference = match[1].toLowerCase() === "script"
+      ? isScriptType(attributes) ? attributes.get("src") : undefined
+      : (attributes.get("rel")?.value.toLowerCase().split(/\s+/) ?? []).some(
+          (rel) => LINK_RELS.includes(rel),
+        )
+      ? attributes.get("href")
+      : undefined;
+    if (!reference) {
+      continue;
+    }
+
+    const module = reference.value.trim().replace(/[?#].*$/, "");
+    if (!module || /^([a-z][a-z\d+.-]*:|\/\/)/i.test(module)) {
+      continue;
+    }
+    const { line, column } = positionAt(source, reference.offset);
+    imports.push({
+      type: "html",
+      edge: "html",
+      module: /^\.{0,2}\//.test(module) ? module : "./" + module,
+      isDynamic: false,
+      isPattern: false,
+      lineNumber: line,
+      column,
+      bindings: [],
+      importKind: "side-effect",
+    });
+  }
+
+  return imports;
+}
+
+/**
+ * Parse the attributes of an HTML start tag
+ * @param text Attribute text of the tag
+ * @param offset Offset of the text in the file
+ * @returns Lowercased attribute names mapped to their value and the offset
+ * of the value (including its opening quote)
+ */
+function parseAttributes(
+  text: string,
+  offset: number,
+): Map<string, { value: string; offset: number }> {
+  const attributes = new Map<string, { value: string; offset: number }>();
+  const attributePattern =
+    /([^\s=\/>"']+)(?:\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s>"']+)))?/g;
+  for (const match of text.matchAll(attributePattern)) {
+    const quoted = match[2] ?? match[3];
+    const value = quoted ?? match[4] ?? "";
+    // The value, including its quotes, ends the match
+    const valueOffset = match[0].length - value.length -
+      (quoted === undefined ? 0 : 2);
+    attributes.set(match[1].toLowerCase(), {
+      value,
+      offset: offset + match.index! + valueOffset,
+    });
+  }
+  return attributes;
+}
+
+/**
+ * Whether a `<script>` element contains JavaScript rather than data such as
+ * an import map or JSON
+ */
+function isScriptType(
+  attributes: Map<string, { value: string; offset: number }>,
+): boolean {
+  const type = attributes.get("type")?.value.trim().toLowerCase() ?? "";
+  return SCRIPT_TYPES.includes(type);
+}
+
+/**
+ * Blank out HTML comments, keeping offsets and line breaks intact
+ */
+function maskHtmlComments(content: string): string {
+  return content.replace(
+    /<!--[\s\S]*?-->/g,
+    (comment) => comment.replace(/[^\n]/g, " "),
+  );
+}
+
+/**
+ * Extract the stylesheets and assets referenced by a stylesheet
+ *
+ * `@import`, `@use` and `@forward` rules create `import` edges (`@forward`
+ * re-exports, like `export * from`), `url()` references create `url` edges.
+ * Data URIs, fragment references and specifiers built from variables or
+ * interpolation are skipped.
+ * @param source Stylesheet source code
+ * @param lineComments Whether `//` starts a comment, as in Sass and Less
+ * @returns Array of import statements in source order
+ */
+export function extractStylesheetImports(
+  source: string,
+  lineComments = true,
+): ImportStatement[] {
+  const imports: ImportStatement[] = [];
+
+  const add = (
+    module: string,
+    offset: number,
+    edge: EdgeKind,
+    importKind: ImportKind,
+  ) => {
+    if (!module || /^(data:|#)/i.test(module) || /^[$@]|#\{/.test(module)) {
+      return;
+    }
+    const { line, column } = positionAt(source, offset);
+    imports.push({
+      type: "css",
+      edge,
+      module,
+      isDynamic: false,
+      isPattern: false,
+      lineNumber: line,
+      column,
+      bindings: [],
+      importKind,
+    });
+  };
+
+  // Parse a url() at pos, returning its value and where it ends
+  const readUrl = (pos: number) => {
+    URL_FUNCTION.lastIndex = pos;
+    if (!URL_FUNCTION.test(source)) return null;
+    const start = URL_FUNCTION.lastIndex;
+    let value: string;
+    let end: number;
+    if (source[start] === '"' || source[start] === "'") {
+      const string = readString(source, start);
+      value = string.value;
+      end = source.indexOf(")", string.end);
+    } else {
+      end = source.indexOf(")", start);
+      value = source.slice(start, end === -1 ? source.length : end).trim();
+    }
+    return { value, start, end: end === -1 ? source.length : end + 1 };
+  };
+
+  let pos = 0;
+  while (pos < source.length) {
+    const ch = source[pos];
+
+    // Comments
+    if (ch === "/" && source[pos + 1] === "*") {
+      const close = source.indexOf("*/", pos + 2);
+      pos = close === -1 ? source.length : close + 2;
+      continue;
+    }
+    if (lineComments && ch === "/" && source[pos + 1] === "/") {
+      while (pos < source.length && source[pos] !== "\n") pos++;
+      continue;
+    }
+
+    // Strings outside of the rules below never reference anything
+    if (ch === '"' || ch === "'") {
+      pos = readString(source, pos).end;
+      continue;
+    }
+
+    // @import "a", "b"; @use "a" as b; @forward "a" show b;
+    STYLESHEET_RULE.lastIndex = pos;
+    const rule = ch === "@" && STYLESHEET_RULE.exec(source);
+    if (rule) {
+      const name = rule[1].toLowerCase();
+      const edge = name === "forward" ? "reexport" : "import";
+      const importKind = name === "import" ? "side-effect" : "runtime";
+      pos = STYLESHEET_RULE.lastIndex;
+      while (pos < source.length) {
+        pos = skipWhitespace(source, pos);
+        // Less import options: @import (reference) "a";
+        if (source[pos] === "(") {
+          const close = source.indexOf(")", pos);
+          pos = skipWhitespace(
+            source,
+            close === -1 ? source.length : close + 1,
+          );
+        }
+        if (source[pos] === '"' || source[pos] === "'") {
+          const string = readString(source, pos);
+          add(string.value, pos, edge, importKind);
+          pos = string.end;
+        } else {
+          const url = readUrl(pos);
+          if (!url) break;
+          add(url.value.replace(/[?#].*$/, ""), url.start, edge, importKind);
+          pos = url.end;
+        }
+        pos = skipWhitespace(source, pos);
+        if (source[pos] !== ",") break;
+        pos++;
+      }
+      continue;
+    }
+
+    // url(...) in declarations
+    if (
+      (ch === "u" || ch === "U") && !/[\w-]/.test(source[pos - 1] ?? "")
+    ) {
+      const url = readUrl(pos);
+      if (url) {
+        add(url.value.replace(/[?#].*$/, ""), url.start, "url", "side-effect");
+        pos = url.end;
+        continue;
+      }
+    }
+
+    pos++;
+  }
+
+  return imports;
+}
+
+/**
+ * Read a quoted stylesheet string starting at its opening quote
+ * @returns The unescaped contents and the offset just past the closing quote
+ */
+function readString(
+  source: string,
+  start: number,
+): { value: string; end: number } {
+  const quote = source[start];
+  let value = "";
+  let pos = start + 1;
+  while (pos < source.length && source[pos] !== quote) {
+    if (source[pos] === "\n") break;
+    if (source[pos] === "\\") {
+      pos++;
+    }
+    value += source[pos] ?? "";
+    pos++;
+  }
+  return { value, end: pos + 1 };
+}
+
+/**
+ * Skip whitespace starting at an offset
+ */
+function skipWhitespace(source: string, pos: number): number {
+  while (pos < source.length && /\s/.test(source[pos])) pos++;
+  return pos;
+}
+
+/**
+ * Compute the 1-based line and column of an offset
+ */
+function positionAt(
+  content: string,
+  offset: number,
+): { line: number; column: number } {
+  const before = content.slice(0, offset);
+  const lineStart = before.lastIndexOf("\n") + 1;
+  return {
+    line: before.split("\n").length,
+    column: offset - lineStart + 1,
+  };
+}
@@ -0,0 +1,806 @@
+/**
+ * Import graph for whoimportme
+ *
+ * Resolves every import of the scanned files once and indexes the imports
+ * both ways, so that questions about the whole graph, such as which files are
+ * affected when a file changes, can be answered by walking it. The imports of
+ * a single file, and of the files it imports in turn, are resolved without a
+ * scan.
+ */
+
+import {
+  extname,
+  relative,
+  resolve,
+  SEPARATOR,
+} from "https://deno.land/std@0.224.0/path/mod.ts";
+import { existsSync } from "https://deno.land/std@0.224.0/fs/exists.ts";
+import {
+  bindsSymbol,
+  type ExportDeclaration,
+  extractExports,
+  importedSymbols,
+} from "./parser.ts";
+import { findResolutionConfig, type ResolutionConfig } from "./config.ts";
+import { MODULE_EXTENSIONS, SOURCE_EXTENSIONS } from "./extractors.ts";
+import { canonicalPath } from "./paths.ts";
+import { isRemoteUrl } from "./remote.ts";
+import { findEntryPoints } from "./entries.ts";
+import type {
+  CycleResult,
+  Dependency,
+  EntryPoint,
+  ImportCycle,
+  TransitiveImporter,
+  UnusedExport,
+} from "./output.ts";
+import {
+  type FindDirectoryImportersOptions,
+  type ImportEdge,
+  loadConfigOverride,
+  matchesImportKind,
+  matchesTarget,
+  parseImports,
+  resolveFileImports,
+  resolveImportPath,
+  resolveOptionsFor,
+  resolveRegistryPackage,
+  resolveTarget,
+} from "./resolver.ts";
+
+/**
+ * The resolved imports of a set of files
+ */
+export interface ImportGraph {
+  /** Every resolved import, in the order of the files and their imports */
+  edges: ImportEdge[];
+  /** Imports of each file, by the real path of the importing file */
+  imports: Map<string, ImportEdge[]>;
+  /**
+   * Imports of each file, by the real path of the imported file or the URL
+   * of the imported remote module
+   */
+  importers: Map<string, ImportEdge[]>;
+}
+
+/**
+ * Options for finding transitive importers
+ */
+export interface FindTransitiveImportersOptions
+  extends FindDirectoryImportersOptions {
+  /** Only follow direct importers that bind this export of the target */
+  symbol?: string;
+  /**
+   * Maximum distance of the reported importers from the target, 1 being the
+   * direct importers (default: unlimited)
+   */
+  depth?: number;
+}
+
+/**
+ * Options for finding the dependencies of a file
+ */
+export interface FindDependenciesOptions extends FindDirectoryImportersOptions {
+  /** Also report the imports of the files the file imports, and so on */
+  transitive?: boolean;
+  /**
+   * Maximum distance of the reported imports from the file, 1 being its own
+   * imports (default: unlimited when transitive)
+   */
+  depth?: number;
+}
+
+/**
+ * Imports of a file, sorted by what they resolve to
+ */
+export interface Dependencies {
+  /** Imports of files in the project */
+  dependencies: Dependency[];
+  /** Imports of packages in `node_modules` and of remote modules */
+  external: Dependency[];
+  /**
+   * Imports that cannot be resolved, resolve to a missing file, or are
+   * dynamic import patterns
+   */
+  unresolved: Dependency[];
+}
+
+/**
+ * Options for finding files that are not reachable from the entry points
+ */
+export interface FindOrphansOptions extends FindDirectoryImportersOptions {
+  /**
+   * Glob patterns, relative to the root, of files to use as entry points
+   * besides the detected ones
+   */
+  entries?: string[];
+}
+
+/**
+ * Scanned files sorted by whether the entry points reach them
+ */
+export interface Orphans {
+  /** The entry points the walk started from */
+  entries: EntryPoint[];
+  /** Files no import reaches from the entry points */
+  orphans: string[];
+  /** Files no scanned file imports, except the entry points */
+  unimported: string[];
+  /** Files only reached through dynamic imports */
+  dynamicOnly: string[];
+}
+
+/**
+ * Key identifying a file in the graph
+ * @param path Path of the file, or URL of a remote module
+ * @returns The real path of the file, or the URL
+ */
+export function graphNode(path: string): string {
+  return isRemoteUrl(path) ? path : canonicalPath(path);
+}
+
+/**
+ * Resolve every import of a set of files
+ * @param files List of files to read
+ * @param options Options controlling which imports are resolved and how
+ * @returns The import graph of the files
+ * @throws {Error} If the configuration file given cannot be loaded
+ */
+export async function buildImportGraph(
+  files: string[],
+  options: FindDirectoryImportersOptions = {},
+): Promise<ImportGraph> {
+  const configOverride = await loadConfigOverride(options.config);
+  const patternCandidates = files.map((file) => resolve(file));
+  const graph: ImportGraph = {
+    edges: [],
+    imports: new Map(),
+    importers: new Map(),
+  };
+
+  for (const filePath of files) {
+    try {
+      // Skip if file doesn't exist
+      if (!existsSync(filePath)) {
+        console.warn(`Warning: Skipping non-existent file ${filePath}`);
+        continue;
+      }
+
+      const edges = (await resolveFileImports(
+        filePath,
+        patternCandidates,
+        options,
+        configOverride,
+      )).filter((edge) => matchesImportKind(edge.resolved.importKind, options));
+      graph.edges.push(...edges);
+      graph.imports.set(graphNode(filePath), edges);
+      for (const edge of edges) {
+        const node = graphNode(edge.resolved.resolvedPath);
+        if (!graph.importers.has(node)) {
+          graph.importers.set(node, []);
+        }
+        graph.importers.get(node)!.push(edge);
+      }
+    } catch (error) {
+      if (error instanceof Deno.errors.NotFound) {
+        console.warn(`Warning: Skipping file ${filePath} - ${error.message}`);
+        continue;
+      }
+      console.error(`Error processing ${filePath}:`, error);
+    }
+  }
+
+  return graph;
+}
+
+/**
+ * Find every file that imports the target directly or through other files,
+ * walking the reverse import graph breadth-first
+ * @param targetFilePath The file, directory or URL to search for imports of
+ * @param files List of files to search through
+ * @param _rootPath Root directory of the scan (configuration is discovered
+ * for each file)
+ * @param options Options controlling which importers are reported
+ * @returns Every file reached, ordered by distance from the target, with one
+ * of the shortest chains of imports that leads back to the target
+ * @throws {Deno.errors.NotFound} If the target file doesn't exist
+ * @throws {Error} If the configuration file given cannot be loaded
+ */
+export async function findTransitiveImporters(
+  targetFilePath: string,
+  files: string[],
+  _rootPath: string,
+  options: FindTransitiveImportersOptions = {},
+): Promise<TransitiveImporter[]> {
+  const target = await resolveTarget(
+    targetFilePath,
+    await loadConfigOverride(options.config),
+  );
+  const graph = await buildImportGraph(files, options);
+  const { symbol, depth } = options;
+
+  // Files are reached once, at their shortest distance, so that cycles end
+  const reached = new Set<string>();
+  const reach = (edge: ImportEdge, chain: string[]): TransitiveImporter => {
+    reached.add(graphNode(edge.resolved.sourceFile));
+    return {
+      sourceFile: edge.resolved.sourceFile,
+      importedFile: chain[0],
+      importPath: edge.resolved.importPath,
+      lineNumber: edge.resolved.lineNumber,
+      distance: chain.length,
+      chain: [edge.resolved.sourceFile, ...chain],
+    };
+  };
+  const isNew = (edge: ImportEdge) =>
+    !reached.has(graphNode(edge.resolved.sourceFile)) &&
+    (target.isUrl || !matchesTarget(target, edge.resolved.sourceFile));
+
+  // Direct importers, then the importers of the files reached at each distance
+  let frontier: TransitiveImporter[] = [];
+  for (const edge of sortEdges(graph.edges)) {
+    if (
+      matchesTarget(target, edge.resolved.resolvedPath) && isNew(edge) &&
+      (symbol === undefined || bindsSymbol(edge.statement, symbol))
+    ) {
+      frontier.push(reach(edge, [edge.resolved.resolvedPath]));
+    }
+  }
+
+  const importers: TransitiveImporter[] = [];
+  while (frontier.length > 0) {
+    importers.push(...frontier);
+    if (depth !== undefined && frontier[0].distance >= depth) {
+      break;
+    }
+    const next: TransitiveImporter[] = [];
+    for (const importer of frontier) {
+      const edges = graph.importers.get(graphNode(importer.sourceFile)) ?? [];
+      for (const edge of sortEdges(edges)) {
+        if (isNew(edge)) {
+          next.push(reach(edge, importer.chain));
+        }
+      }
+    }
+    frontier = next;
+  }
+  return importers;
+}
+
+/**
+ * Sort imports by importing file and position, so that the chains reported
+ * do not depend on the order the files were scanned in
+ */
+function sortEdges(edges: ImportEdge[]): ImportEdge[] {
+  return [...edges].sort((a, b) =>
+    a.resolved.sourceFile.localeCompare(b.resolved.sourceFile) ||
+    a.resolved.lineNumber - b.resolved.lineNumber ||
+    a.resolved.column - b.resolved.column
+  );
+}
+
+/**
+ * Find what a file imports, and optionally what those files import in turn,
+ * walking the import graph forward breadth-first
+ * @param filePath The file to list the imports of, which may be given without
+ * its extension
+ * @param options Options controlling which imports are reported
+ * @returns The imports of the file and of every file reached, ordered by
+ * distance from the file; project files are followed, packages and remote
+ * modules are not
+ * @throws {Deno.errors.NotFound} If the file doesn't exist
+ * @throws {Error} If the path is a directory or URL, or the configuration file
+ * given cannot be loaded
+ */
+export async function findDependencies(
+  filePath: string,
+  options: FindDependenciesOptions = {},
+): Promise<Dependencies> {
+  const configOverride = await loadConfigOverride(options.config);
+  const depth = options.transitive ? options.depth : 1;
+  const result: Dependencies = {
+    dependencies: [],
+    external: [],
+    unresolved: [],
+  };
+
+  const target = await resolveTarget(filePath, configOverride);
+  if (target.isDirectory || target.isUrl) {
+    throw new Error(`${filePath} is not a file`);
+  }
+
+  // Files are read once, at their shortest distance, so that cycles end
+  const reached = new Set<string>([target.path]);
+  let frontier = [target.path];
+  for (
+    let distance = 1;
+    frontier.length > 0 && (depth === undefined || distance <= depth);
+    distance++
+  ) {
+    const next: string[] = [];
+    for (const sourceFile of frontier) {
+      let dependencies: Dependency[];
+      try {
+        dependencies = await resolveDependencies(
+          sourceFile,
+          distance,
+          options,
+          configOverride,
+        );
+      } catch (error) {
+        // Only the file itself has to exist; the others were found on disk
+        if (distance === 1) {
+          throw error;
+        }
+        console.warn(
+          `Warning: Skipping file ${sourceFile} - ${(error as Error).message}`,
+        );
+        continue;
+      }
+
+      for (const dependency of dependencies) {
+        const { resolvedPath } = dependency;
+        if (
+          resolvedPath === null
+            ? dependency.package !== undefined
+            : isExternal(resolvedPath)
+        ) {
+          result.external.push(dependency);
+        } else if (resolvedPath === null || !existsSync(resolvedPath)) {
+          result.unresolved.push(dependency);
+        } else {
+          result.dependencies.push(dependency);
+          const node = graphNode(resolvedPath);
+          if (
+            !reached.has(node) && Deno.statSync(resolvedPath).isFile &&
+            SOURCE_EXTENSIONS.includes(extname(resolvedPath))
+          ) {
+            reached.add(node);
+            next.push(resolvedPath);
+          }
+        }
+      }
+    }
+    frontier = next;
+  }
+  return result;
+}
+
+/**
+ * Parse a file and resolve each of its imports
+ * @param sourceFile Absolute path of the file
+ * @param distance Distance of the file's imports from the queried file
+ * @param options Options controlling which imports are reported
+ * @param configOverride Configuration that replaces discovery, if any
+ * @returns Every import of the file that passes the filters, in source order
+ */
+async function resolveDependencies(
+  sourceFile: string,
+  distance: number,
+  options: FindDependenciesOptions,
+  configOverride?: Partial<ResolutionConfig>,
+): Promise<Dependency[]> {
+  const imports = await parseImports(sourceFile);
+  const { importMap, tsConfig, resolverConfig } = await findResolutionConfig(
+    sourceFile,
+    configOverride,
+  );
+
+  return imports
+    .filter((imp) =>
+      !(imp.isDynamic && !options.includeDynamic) &&
+      !(imp.edge === "mock" && options.excludeMocks) &&
+      matchesImportKind(imp.importKind, options)
+    )
+    .map((imp) => {
+      // A pattern names no single file without a scan to match it against
+      const resolvedPath = imp.isPattern ? null : resolveImportPath(
+        sourceFile,
+        imp.module,
+        importMap,
+        tsConfig,
+        resolveOptionsFor(imp, options, resolverConfig),
+      );
+      // Registry packages that are not installed are still named
+      const registryPackage = resolvedPath === null
+        ? resolveRegistryPackage(sourceFile, imp.module, importMap)
+        : null;
+      return {
+        sourceFile,
+        importPath: imp.module,
+        resolvedPath,
+        ...(registryPackage !== null && { package: registryPackage }),
+        lineNumber: imp.lineNumber,
+        column: imp.column,
+        edge: imp.edge,
+        importKind: imp.importKind,
+        isDynamic: imp.isDynamic,
+        distance,
+      };
+    });
+}
+
+/**
+ * Whether an import resolves outside the project, to a remote module or to a
+ * package installed in `node_modules`
+ * @param resolvedPath The resolved path or URL
+ */
+function isExternal(resolvedPath: string): boolean {
+  return isRemoteUrl(resolvedPath) ||
+    resolvedPath.split(SEPARATOR).includes("node_modules");
+}
+
+/**
+ * Find the import cycles among a set of files
+ *
+ * The strongly connected components of the import graph are the groups of
+ * files that all reach each other through imports. Each is reported with one
+ * of the shortest cycles through its first file, which is where a
+ * temporal-dead-zone error usually starts to be debugged.
+ * @param files List of files to search through
+ * @param options Options controlling which imports are followed; type-only
+ * imports are left out with `runtimeOnly`
+ * @returns One cycle for each group of files importing each other, ordered by
+ * their first file
+ * @throws {Error} If the configuration file given cannot be loaded
+ */
+export async function findImportCycles(
+  files: string[],
+  options: FindDirectoryImportersOptions = {},
+): Promise<ImportCycle[]> {
+  const graph = await buildImportGraph(files, options);
+
+  // Imports between scanned files, in a stable order
+  const successors = new Map<string, ImportEdge[]>();
+  const names = new Map<string, string>();
+  for (const [node, edges] of graph.imports) {
+    successors.set(
+      node,
+      sortEdges(edges).filter((edge) =>
+        graph.imports.has(graphNode(edge.resolved.resolvedPath))
+      ),
+    );
+    if (edges.length > 0) {
+      names.set(node, edges[0].resolved.sourceFile);
+    }
+  }
+
+  const cycles: ImportCycle[] = [];
+  for (const component of stronglyConnectedComponents(successors)) {
+    const members = new Set(component);
+    if (
+      component.length === 1 &&
+      !successors.get(component[0])!.some((edge) =>
+        graphNode(edge.resolved.resolvedPath) === component[0]
+      )
+    ) {
+      continue;
+    }
+    const start = component.reduce((first, node) =>
+      names.get(node)!.localeCompare(names.get(first)!) < 0 ? node : first
+    );
+    const chain = shortestCycle(start, members, successors)!;
+    cycles.push({
+      files: component.map((node) => names.get(node)!).sort(),
+      chain: chain.map((edge) => ({
+        sourceFile: edge.resolved.sourceFile,
+        importedFile: names.get(graphNode(edge.resolved.resolvedPath))!,
+        importPath: edge.resolved.importPath,
+        lineNumber: edge.resolved.lineNumber,
+        importKind: edge.resolved.importKind,
+      })),
+    });
+  }
+  return cycles.sort((a, b) => a.files[0].localeCompare(b.files[0]));
+}
+
+/**
+ * Find the strongly connected components of a graph with Tarjan's algorithm
+ * @param successors Outgoing edges of every node
+ * @returns The nodes of each component
+ */
+function stronglyConnectedComponents(
+  successors: Map<string, ImportEdge[]>,
+): string[][] {
+  const index = new Map<string, number>();
+  const lowLink = new Map<string, number>();
+  const stack: string[] = [];
+  const onStack = new Set<string>();
+  const components: string[][] = [];
+
+  const visit = (node: string) => {
+    index.set(node, index.size);
+    lowLink.set(node, index.get(node)!);
+    stack.push(node);
+    onStack.add(node);
+
+    for (const edge of successors.get(node) ?? []) {
+      const next = graphNode(edge.resolved.resolvedPath);
+      if (!index.has(next)) {
+        visit(next);
+        lowLink.set(node, Math.min(lowLink.get(node)!, lowLink.get(next)!));
+      } else if (onStack.has(next)) {
+        lowLink.set(node, Math.min(lowLink.get(node)!, index.get(next)!));
+      }
+    }
+
+    if (lowLink.get(node) === index.get(node)) {
+      const component: string[] = [];
+      let member: string;
+      do {
+        member = stack.pop()!;
+        onStack.delete(member);
+        component.push(member);
+      } while (member !== node);
+      components.push(component);
+    }
+  };
+
+  for (const node of successors.keys()) {
+    if (!index.has(node)) {
+      visit(node);
+    }
+  }
+  return components;
+}
+
+/**
+ * Find one of the shortest cycles from a node back to itself, breadth-first
+ * @param start The node the cycle starts and ends at
+ * @param members Nodes the cycle may go through
+ * @param successors Outgoing edges of every node
+ * @returns The imports of the cycle in order, or null if there is none
+ */
+function shortestCycle(
+  start: string,
+  members: Set<string>,
+  successors: Map<string, ImportEdge[]>,
+): ImportEdge[] | null {
+  const reachedBy = new Map<string, ImportEdge>();
+  let frontier = [start];
+  while (frontier.length > 0) {
+    const next: string[] = [];
+    for (const node of frontier) {
+      for (const edge of successors.get(node) ?? []) {
+        const target = graphNode(edge.resolved.resolvedPath);
+        if (target === start) {
+          // Walk back to the start through the imports that reached each node
+          const chain = [edge];
+          for (let at = node; at !== start;) {
+            const previous = reachedBy.get(at)!;
+            chain.unshift(previous);
+            at = graphNode(previous.resolved.sourceFile);
+          }
+          return chain;
+        }
+        if (members.has(target) && !reachedBy.has(target)) {
+          reachedBy.set(target, edge);
+          next.push(target);
+        }
+      }
+    }
+    frontier = next;
+  }
+  return null;
+}
+
+/**
+ * Key identifying a cycle across runs: its files relative to the root
+ * @param files Files of the cycle
+ * @param root Root directory the files were scanned from
+ */
+export function cycleKey(files: string[], root: string): string {
+  return files.map((file) => relative(resolve(root), resolve(file))).sort()
+    .join("\n");
+}
+
+/**
+ * Read the cycles known from a previous run, so that only new ones fail
+ * @param path Path of the JSON output of a previous `cycles` run
+ * @returns Keys of the cycles it reports (see `cycleKey`)
+ * @throws {Error} If the file cannot be read or is not such output
+ */
+export async function readCycleBaseline(path: string): Promise<Set<string>> {
+  const baseline = JSON.parse(await Deno.readTextFile(path)) as
+    | Partial<CycleResult>
+    | null;
+  if (typeof baseline?.root !== "string" || !Array.isArray(baseline.cycles)) {
+    throw new Error(`${path} is not the JSON output of the cycles command`);
+  }
+  return new Set(
+    baseline.cycles.map((cycle) => cycleKey(cycle.files, baseline.root!)),
+  );
+}
+
+/**
+ * Find the scanned files that are not reachable from the entry points
+ *
+ * Dynamic imports are always followed, but the files reached only through
+ * them, such as lazily loaded pages, are reported separately instead of as
+ * orphans: the import may be used even though the file is not loaded eagerly.
+ * @param files List of files to search through
+ * @param rootPath Root directory of the scan
+ * @param options Extra entry points and options controlling which imports
+ * are followed
+ * @returns The entry points, the orphans, the files with no importers and the
+ * files only reached dynamically, each in the order of the files
+ * @throws {Error} If the configuration file given cannot be loaded
+ */
+export async function findOrphans(
+  files: string[],
+  rootPath: string,
+  options: FindOrphansOptions = {},
+): Promise<Orphans> {
+  const entries = await findEntryPoints(files, rootPath, options.entries);
+  const graph = await buildImportGraph(files, {
+    ...options,
+    includeDynamic: true,
+  });
+
+  // Walk the static imports, then the dynamic ones from every file reached
+  const walk = (starts: string[], followDynamic: boolean) => {
+    const reached = new Set(starts);
+    const queue = [...starts];
+    while (queue.length > 0) {
+      for (const edge of graph.imports.get(queue.shift()!) ?? []) {
+        const node = graphNode(edge.resolved.resolvedPath);
+        if ((followDynamic || !edge.resolved.isDynamic) && !reached.has(node)) {
+          reached.add(node);
+          queue.push(node);
+        }
+      }
+    }
+    return reached;
+  };
+  const statically = walk(entries.map((entry) => graphNode(entry.file)), false);
+  const dynamically = walk([...statically], true);
+
+  const entryNodes = new Set(entries.map((entry) => graphNode(entry.file)));
+  return {
+    entries,
+    orphans: files.filter((file) => !dynamically.has(graphNode(file))),
+    unimported: files.filter((file) =>
+      !entryNodes.has(graphNode(file)) && !graph.importers.has(graphNode(file))
+    ),
+    dynamicOnly: files.filter((file) =>
+      dynamically.has(graphNode(file)) && !statically.has(graphNode(file))
+    ),
+  };
+}
+
+/**
+ * Find the exports of the scanned modules that no scanned file imports
+ *
+ * Every import asks the imported module for the names it binds, and
+ * re-exports pass the request on to the module they re-export from, so an
+ * export used through a barrel file is used. Namespace imports use the
+ * members accessed on them, or every export when the namespace is used as a
+ * whole, as do unassigned `require()` and `import()` calls and dynamic
+ * import patterns. Entry points are public: all their exports are used.
+ * @param files List of files to search through
+ * @param rootPath Root directory of the scan
+ * @param options Extra entry points and options controlling which imports
+ * are followed
+ * @returns The unused exports, in the order of the files and their exports
+ * @throws {Error} If the configuration file given cannot be loaded
+ */
+export async function findUnusedExports(
+  files: string[],
+  rootPath: string,
+  options: FindOrphansOptions = {},
+): Promise<UnusedExport[]> {
+  const entries = await findEntryPoints(files, rootPath, options.entries);
+  const graph = await buildImportGraph(files, {
+    ...options,
+    includeDynamic: true,
+  });
+
+  // Exports of each module, with the modules re-exports resolve to
+  const modules = new Map<
+    string,
+    { file: string; exports: ExportDeclaration[]; from: Map<string, string> }
+  >();
+  for (const file of files) {
+    if (!MODULE_EXTENSIONS.includes(extname(file))) {
+      continue;
+    }
+    let exports: ExportDeclaration[];
+    try {
+      exports = extractExports(await Deno.readTextFile(file));
+    } catch (error) {
+      console.warn(
+        `Warning: Skipping file ${file} - ${(error as Error).message}`,
+      );
+      continue;
+    }
+    const from = new Map<string, string>();
+    for (const edge of graph.imports.get(graphNode(file)) ?? []) {
+      if (edge.statement.edge === "reexport") {
+        from.set(edge.statement.module, graphNode(edge.resolved.resolvedPath));
+      }
+    }
+    modules.set(graphNode(file), { file, exports, from });
+  }
+
+  // Pass each requested name on until it reaches the module declaring it
+  const used = new Map<string, Set<string>>();
+  const requests: [string, string][] = [];
+  const request = (node: string, name: string) => {
+    if (!used.has(node)) {
+      used.set(node, new Set());
+    }
+    const names = used.get(node)!;
+    if (!names.has(name) && !names.has("*")) {
+      names.add(name);
+      requests.push([node, name]);
+    }
+  };
+
+  for (const entry of entries) {
+    request(graphNode(entry.file), "*");
+  }
+  for (const edge of graph.edges) {
+    const { statement } = edge;
+    if (statement.edge !== "import") {
+      continue;
+    }
+    const wholeModule = statement.isPattern ||
+      (statement.bindings.length === 0 &&
+        (statement.isDynamic || statement.type === "commonjs"));
+    for (const name of wholeModule ? ["*"] : importedSymbols(statement)) {
+      request(graphNode(edge.resolved.resolvedPath), name);
+    }
+  }
+
+  while (requests.length > 0) {
+    const [node, name] = requests.shift()!;
+    const module = modules.get(node);
+    if (module === undefined) {
+      continue;
+    }
+    const declared = module.exports.filter((declaration) =>
+      name === "*" || declaration.name === name
+    );
+    // `export *` passes on the names the module does not declare itself,
+    // except its default export
+    const passedOn = declared.length > 0 || name === "default"
+      ? declared
+      : module.exports.filter((declaration) => declaration.name === "*");
+    for (const declaration of passedOn) {
+      const target = declaration.module === undefined
+        ? undefined
+        : module.from.get(declaration.module);
+      if (target !== undefined) {
+        request(
+          target,
+          declaration.name === "*" ? name : declaration.imported!,
+        );
+      }
+    }
+  }
+
+  const unused: UnusedExport[] = [];
+  for (const { file, exports } of modules.values()) {
+    const names = used.get(graphNode(file)) ?? new Set();
+    const reported = new Set<string>();
+    for (const declaration of exports) {
+      if (
+        declaration.name === "*" || names.has("*") ||
+        names.has(declaration.name) || reported.has(declaration.name)
+      ) {
+        continue;
+      }
+      // Overloads and merged declarations are reported once
+      reported.add(declaration.name);
+      unused.push({
+        file,
+        name: declaration.name,
+        lineNumber: declaration.lineNumber,
+        column: declaration.column,
+        isType: declaration.isType,
+        module: declaration.module,
+      });
+    }
+  }
+  return unused;
+}
@@ -0,0 +1,254 @@
+/**
+ * Import map support for whoimportme
+ *
+ * Loads import maps from `deno.json`/`deno.jsonc` (inline `imports` and
+ * `scopes`, or the file named by `importMap`) or `import_map.json`, and maps
+ * specifiers through them following the import map specification.
+ */
+
+import {
+  dirname,
+  join,
+  resolve,
+} from "https://deno.land/std@0.224.0/path/mod.ts";
+import { existsSync } from "https://deno.land/std@0.224.0/fs/exists.ts";
+import { parseJsonc } from "./jsonc.ts";
+
+/**
+ * Interface for import map configuration
+ *
+ * Relative addresses and scope keys are relative to the directory of the file
+ * the import map was loaded from (`configPath`).
+ */
+export interface ImportMap {
+  /** Path of the file the map was loaded from, set when loaded from disk */
+  configPath?: string;
+  /** Map of import specifiers to their resolved paths */
+  imports?: Record<string, string>;
+  /** Scoped import maps */
+  scopes?: Record<string, Record<string, string>>;
+}
+
+/**
+ * Interface for the Deno configuration fields used for resolution
+ */
+interface DenoConfig {
+  /** Inline import map entries */
+  imports?: Record<string, string>;
+  /** Inline scoped import map entries */
+  scopes?: Record<string, Record<string, string>>;
+  /** Path of an import map file */
+  importMap?: string;
+}
+
+/**
+ * Configuration files that may contain or point to an import map, in the
+ * order they are looked up
+ */
+export const IMPORT_MAP_FILES = ["deno.json", "deno.jsonc", "import_map.json"];
+
+/**
+ * Find and read the import map of a directory
+ *
+ * `deno.json` and `deno.jsonc` are used when they define `imports`, `scopes`
+ * or `importMap`; otherwise `import_map.json` is used.
+ * @param directory Directory containing the configuration files
+ * @returns The import map, or null if the directory has none
+ * @throws {Error} If a configuration file cannot be read or parsed
+ */
+export async function findImportMap(
+  directory: string,
+): Promise<ImportMap | null> {
+  for (const name of IMPORT_MAP_FILES) {
+    const path = join(directory, name);
+    if (!existsSync(path)) {
+      continue;
+    }
+    const importMap = name === "import_map.json"
+      ? await readImportMap(path)
+      : await readDenoConfig(path);
+    if (importMap) {
+      return importMap;
+    }
+  }
+  return null;
+}
+
+/**
+ * Read an import map file
+ * @param path Path of the import map
+ * @returns The import map
+ * @throws {Error} If the file cannot be read or parsed
+ */
+export async function readImportMap(path: string): Promise<ImportMap> {
+  const configPath = resolve(path);
+  const importMap = parseJsonc(
+    await Deno.readTextFile(configPath),
+  ) as ImportMap;
+  return { ...importMap, configPath };
+}
+
+/**
+ * Read the import map of a Deno configuration file
+ * @param path Path of `deno.json` or `deno.jsonc`
+ * @returns The inline import map or the one `importMap` points to, or null if
+ * the configuration has neither
+ * @throws {Error} If a file cannot be read or parsed
+ */
+export async function readDenoConfig(path: string): Promise<ImportMap | null> {
+  const configPath = resolve(path);
+  const config = parseJsonc(await Deno.readTextFile(configPath)) as DenoConfig;
+
+  // Inline entries take precedence over an import map file
+  if (config.imports || config.scopes) {
+    return { configPath, imports: config.imports, scopes: config.scopes };
+  }
+  if (typeof config.importMap === "string" && !isUrl(config.importMap)) {
+    return await readImportMap(resolve(dirname(configPath), config.importMap));
+  }
+  return null;
+}
+
+/**
+ * Entry of an import map a specifier matched
+ */
+export interface ImportMapMatch {
+  /** Scope the entry belongs to, or undefined for the top-level `imports` */
+  scope?: string;
+  /** Key of the entry, e.g. "lib/" */
+  key: string;
+  /**
+   * The absolute path for path addresses, the address itself for other
+   * specifiers such as "npm:preact"
+   */
+  address: string;
+}
+
+/**
+ * Map a specifier through an import map
+ * @param importMap The import map
+ * @param importerPath Path of the file that contains the import
+ * @param specifier The specifier to map
+ * @param baseDirectory Directory relative addresses start from
+ * @returns The absolute path for path addresses, the address itself for
+ * other specifiers such as "npm:preact", or null if nothing matches
+ */
+export function resolveImportMapSpecifier(
+  importMap: ImportMap,
+  importerPath: string,
+  specifier: string,
+  baseDirectory: string,
+): string | null {
+  return matchImportMap(importMap, importerPath, specifier, baseDirectory)
+    ?.address ?? null;
+}
+
+/**
+ * Find the import map entry a specifier matches
+ *
+ * The scopes containing the importer are tried from the most specific one,
+ * then the top-level `imports`. Within each, an exact match wins over the
+ * longest matching prefix ending in "/".
+ * @param importMap The import map
+ * @param importerPath Path of the file that contains the import
+ * @param specifier The specifier to map
+ * @param baseDirectory Directory relative addresses start from
+ * @returns The matching entry, or null if nothing matches
+ */
+export function matchImportMap(
+  importMap: ImportMap,
+  importerPath: string,
+  specifier: string,
+  baseDirectory: string,
+): ImportMapMatch | null {
+  // Path-like specifiers and keys are compared as absolute paths
+  const key = isPathLike(specifier)
+    ? resolve(dirname(importerPath), specifier)
+    : specifier;
+
+  // Scope keys are absolute, so the importer is too
+  const importer = resolve(importerPath);
+  const scopes = Object.entries(importMap.scopes ?? {})
+    .filter(([scope]) => {
+      const prefix = resolveKey(scope, baseDirectory);
+      return prefix.endsWith("/")
+        ? importer.startsWith(prefix)
+        : importer === prefix;
+    })
+    .sort(([a], [b]) =>
+      resolveKey(b, baseDirectory).length - resolveKey(a, baseDirectory).length
+    );
+
+  for (
+    const [scope, map] of [
+      ...scopes,
+      [undefined, importMap.imports ?? {}] as const,
+    ]
+  ) {
+    const match = matchSpecifierMap(map, key, baseDirectory);
+    if (match !== null) {
+      return {
+        ...(scope !== undefined && { scope }),
+        key: match.key,
+        address: isPathLike(match.address)
+          ? resolve(baseDirectory, match.address)
+          : match.address,
+      };
+    }
+  }
+  return null;
+}
+
+/**
+ * Look up a specifier in one specifier map
+ * @returns The matching key and its address with the unmatched remainder
+ * appended, or null
+ */
+function matchSpecifierMap(
+  map: Record<string, string>,
+  key: string,
+  baseDirectory: string,
+): { key: string; address: string } | null {
+  let best: { key: string; prefix: string; address: string } | null = null;
+  for (const [specifier, address] of Object.entries(map)) {
+    const prefix = resolveKey(specifier, baseDirectory);
+    if (prefix === key) {
+      return { key: specifier, address };
+    }
+    if (
+      prefix.endsWith("/") && address.endsWith("/") && key.startsWith(prefix) &&
+      (!best || prefix.length > best.prefix.length)
+    ) {
+      best = { key: specifier, prefix, address };
+    }
+  }
+  return best
+    ? { key: best.key, address: best.address + key.slice(best.prefix.length) }
+    : null;
+}
+
+/**
+ * Make a path-like key absolute, keeping a trailing "/"
+ */
+function resolveKey(key: string, baseDirectory: string): string {
+  if (!isPathLike(key)) {
+    return key;
+  }
+  const path = resolve(baseDirectory, key);
+  return key.endsWith("/") && !path.endsWith("/") ? path + "/" : path;
+}
+
+/**
+ * Whether a specifier or address is a relative or absolute path
+ */
+function isPathLike(specifier: string): boolean {
+  return specifier.startsWith("./") || specifier.startsWith("../") ||
+    specifier.startsWith("/");
+}
+
+/**
+ * Whether a value is a URL such as "https://example.com/map.json"
+ */
+function isUrl(value: string): boolean {
+  return /^[a-z][a-z0-9+.-]*:\/\//i.test(value);
+}
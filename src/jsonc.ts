@@ -0,0 +1,81 @@
+/**
+ * JSONC parser for whoimportme
+ *
+ * Configuration files such as tsconfig.json and deno.jsonc may contain
+ * comments and trailing commas, which `JSON.parse` rejects.
+ */
+
+/**
+ * Parse JSON with comments and trailing commas
+ * @param text The JSONC text
+ * @returns The parsed value
+ * @throws {SyntaxError} If the text is not valid JSONC
+ */
+export function parseJsonc(text: string): unknown {
+  return JSON.parse(stripTrailingCommas(stripComments(text)));
+}
+
+/**
+ * Replace comments with whitespace, leaving strings untouched
+ */
+function stripComments(text: string): string {
+  let result = "";
+  let pos = text.startsWith("\ufeff") ? 1 : 0;
+  while (pos < text.length) {
+    const ch = text[pos];
+    if (ch === '"') {
+      const end = stringEnd(text, pos);
+      result += text.slice(pos, end);
+      pos = end;
+    } else if (ch === "/" && text[pos + 1] === "/") {
+      while (pos < text.length && text[pos] !== "\n") pos++;
+    } else if (ch === "/" && text[pos + 1] === "*") {
+      const close = text.indexOf("*/", pos + 2);
+      pos = close === -1 ? text.length : close + 2;
+      result += " ";
+    } else {
+      result += ch;
+      pos++;
+    }
+  }
+  return result;
+}
+
+/**
+ * Remove commas directly followed by a closing bracket or brace
+ */
+function stripTrailingCommas(text: string): string {
+  let result = "";
+  let pos = 0;
+  while (pos < text.length) {
+    const ch = text[pos];
+    if (ch === '"') {
+      const end = stringEnd(text, pos);
+      result += text.slice(pos, end);
+      pos = end;
+      continue;
+    }
+    if (ch === ",") {
+      let next = pos + 1;
+      while (next < text.length && /\s/.test(text[next])) next++;
+      if (text[next] === "}" || text[next] === "]") {
+        pos++;
+        continue;
+      }
+    }
+    result += ch;
+    pos++;
+  }
+  return result;
+}
+
+/**
+ * Find the offset just past a string literal starting at its opening quote
+ */
+function stringEnd(text: string, start: number): number {
+  let pos = start + 1;
+  while (pos < text.length && text[pos] !== '"') {
+    pos += text[pos] === "\\" ? 2 : 1;
+  }
+  return pos + 1;
+}
@@ -0,0 +1,493 @@
+/**
+ * JavaScript/TypeScript lexer for whoimportme
+ *
+ * Produces a flat token stream that skips comments and whitespace while
+ * keeping track of string, template and regular expression literals, so the
+ * import extractor never mistakes their contents for code.
+ */
+
+/**
+ * Kind of a lexical token
+ */
+export type TokenType =
+  | "name"
+  | "punctuator"
+  | "string"
+  | "number"
+  | "regex"
+  | "template"
+  | "templateHead"
+  | "templateMiddle"
+  | "templateTail";
+
+/**
+ * Interface representing a single token
+ */
+export interface Token {
+  /** Kind of the token */
+  type: TokenType;
+  /**
+   * Token value: the raw text for names, punctuators, numbers and regex
+   * literals, the unescaped contents for strings and template chunks
+   */
+  value: string;
+  /** Offset of the first character of the token */
+  start: number;
+  /** Offset just past the last character of the token */
+  end: number;
+  /** Line number of the first character (1-based) */
+  line: number;
+  /** Column of the first character (1-based) */
+  column: number;
+  /** Whether a line break separates this token from the previous one */
+  newlineBefore: boolean;
+}
+
+/**
+ * Multi-character punctuators, longest first
+ */
+const PUNCTUATORS = [
+  ">>>=",
+  "...",
+  "===",
+  "!==",
+  "**=",
+  "<<=",
+  ">>=",
+  ">>>",
+  "&&=",
+  "||=",
+  "??=",
+  "=>",
+  "==",
+  "!=",
+  "<=",
+  ">=",
+  "&&",
+  "||",
+  "??",
+  "?.",
+  "++",
+  "--",
+  "+=",
+  "-=",
+  "*=",
+  "/=",
+  "%=",
+  "&=",
+  "|=",
+  "^=",
+  "<<",
+  ">>",
+  "**",
+];
+
+/**
+ * Keywords after which a `/` starts a regular expression rather than a division
+ */
+const REGEX_PRECEDING_KEYWORDS = new Set([
+  "await",
+  "case",
+  "delete",
+  "do",
+  "else",
+  "extends",
+  "in",
+  "instanceof",
+  "new",
+  "of",
+  "return",
+  "throw",
+  "typeof",
+  "void",
+  "yield",
+]);
+
+/**
+ * Keywords whose parenthesized condition may be followed by a statement
+ * starting with a regular expression, as in `if (x) /re/.test(y)`
+ */
+const CONDITION_KEYWORDS = new Set(["if", "while", "for", "with"]);
+
+const ID_START = /[\p{ID_Start}$_\\]/u;
+const ID_CONTINUE = /[\p{ID_Continue}$\u200c\u200d\\]/u;
+
+/**
+ * Tokenize JavaScript or TypeScript source code
+ *
+ * The lexer is error tolerant: unterminated strings are dropped up to the end
+ * of their line and a `/` that does not start a complete regex literal is
+ * emitted as a plain punctuator, so JSX text and other non-JavaScript input
+ * never derail the rest of the file.
+ * @param source Source code to tokenize
+ * @returns Array of tokens in source order
+ */
+export function tokenize(source: string): Token[] {
+  const tokens: Token[] = [];
+  // Open `{` and `${` so that a `}` knows whether it resumes a template
+  const braceStack: ("brace" | "template")[] = [];
+  // For each open `(`, whether it belongs to an if/while/for/with condition
+  const parenStack: boolean[] = [];
+  let closedCondition = false;
+
+  let pos = 0;
+  let line = 1;
+  let lineStart = 0;
+  let newlineBefore = false;
+
+  const push = (
+    type: TokenType,
+    value: string,
+    start: number,
+    startLine: number,
+    startColumn: number,
+  ) => {
+    tokens.push({
+      type,
+      value,
+      start,
+      end: pos,
+      line: startLine,
+      column: startColumn,
+      newlineBefore,
+    });
+    newlineBefore = false;
+  };
+
+  const regexAllowed = (): boolean => {
+    const last = tokens[tokens.length - 1];
+    if (!last) return true;
+    switch (last.type) {
+      case "name":
+        return REGEX_PRECEDING_KEYWORDS.has(last.value);
+      case "punctuator":
+        if (last.value === ")") return closedCondition;
+        if (last.value === "]") return false;
+        if (last.value === "++" || last.value === "--") return false;
+        return true;
+      default:
+        return false;
+    }
+  };
+
+  // Skip a hashbang line
+  if (source.startsWith("#!")) {
+    while (pos < source.length && source[pos] !== "\n") pos++;
+  }
+
+  /**
+   * Scan template characters starting after "`" or "}" up to and including
+   * the next "`" or "${"
+   */
+  const scanTemplate = (
+    start: number,
+    startLine: number,
+    startColumn: number,
+    head: boolean,
+  ) => {
+    let cooked = "";
+    while (pos < source.length) {
+      const ch = source[pos];
+      if (ch === "`") {
+        pos++;
+        push(
+          head ? "template" : "templateTail",
+          cooked,
+          start,
+          startLine,
+          startColumn,
+        );
+        return;
+      }
+      if (ch === "$" && source[pos + 1] === "{") {
+        pos += 2;
+        braceStack.push("template");
+        push(
+          head ? "templateHead" : "templateMiddle",
+          cooked,
+          start,
+          startLine,
+          startColumn,
+        );
+        return;
+      }
+      if (ch === "\\") {
+        const [text, length] = readEscape(source, pos);
+        cooked += text;
+        for (let k = pos; k < pos + length; k++) {
+          if (source[k] === "\n") {
+            line++;
+            lineStart = k + 1;
+          }
+        }
+        pos += length;
+        continue;
+      }
+      if (ch === "\n") {
+        line++;
+        lineStart = pos + 1;
+      }
+      cooked += ch;
+      pos++;
+    }
+    // Unterminated template: keep what we have
+    push(
+      head ? "template" : "templateTail",
+      cooked,
+      start,
+      startLine,
+      startColumn,
+    );
+  };
+
+  while (pos < source.length) {
+    const ch = source[pos];
+
+    // Line terminators
+    if (ch === "\n") {
+      pos++;
+      line++;
+      lineStart = pos;
+      newlineBefore = true;
+      continue;
+    }
+
+    // Other whitespace
+    if (/\s/.test(ch) || ch === "\ufeff") {
+      pos++;
+      continue;
+    }
+
+    const start = pos;
+    const startLine = line;
+    const startColumn = pos - lineStart + 1;
+
+    // Comments
+    if (ch === "/" && source[pos + 1] === "/") {
+      while (pos < source.length && source[pos] !== "\n") pos++;
+      continue;
+    }
+    if (ch === "/" && source[pos + 1] === "*") {
+      const close = source.indexOf("*/", pos + 2);
+      const end = close === -1 ? source.length : close + 2;
+      for (let k = pos; k < end; k++) {
+        if (source[k] === "\n") {
+          line++;
+          lineStart = k + 1;
+          newlineBefore = true;
+        }
+      }
+      pos = end;
+      continue;
+    }
+
+    // Identifiers, keywords and private names
+    if (
+      ID_START.test(ch) || (ch === "#" && ID_START.test(source[pos + 1] ?? ""))
+    ) {
+      pos++;
+      while (pos < source.length && ID_CONTINUE.test(source[pos])) pos++;
+      push("name", source.slice(start, pos), start, startLine, startColumn);
+      continue;
+    }
+
+    // Numbers
+    if (
+      /[0-9]/.test(ch) || (ch === "." && /[0-9]/.test(source[pos + 1] ?? ""))
+    ) {
+      pos++;
+      while (pos < source.length) {
+        const c = source[pos];
+        if (/[0-9a-zA-Z_.]/.test(c)) {
+          pos++;
+        } else if (
+          (c === "+" || c === "-") && /[eE]/.test(source[pos - 1]) &&
+          !/^0[xX]/.test(source.slice(start, pos))
+        ) {
+          pos++;
+        } else {
+          break;
+        }
+      }
+      push("number", source.slice(start, pos), start, startLine, startColumn);
+      continue;
+    }
+
+    // String literals
+    if (ch === '"' || ch === "'") {
+      pos++;
+      let value = "";
+      let terminated = false;
+      while (pos < source.length) {
+        const c = source[pos];
+        if (c === ch) {
+          pos++;
+          terminated = true;
+          break;
+        }
+        if (c === "\n") break;
+        if (c === "\\") {
+          const [text, length] = readEscape(source, pos);
+          value += text;
+          for (let k = pos; k < pos + length; k++) {
+            if (source[k] === "\n") {
+              line++;
+              lineStart = k + 1;
+            }
+          }
+          pos += length;
+          continue;
+        }
+        value += c;
+        pos++;
+      }
+      if (terminated) {
+        push("string", value, start, startLine, startColumn);
+      }
+      continue;
+    }
+
+    // Template literals
+    if (ch === "`") {
+      pos++;
+      scanTemplate(start, startLine, startColumn, true);
+      continue;
+    }
+
+    // Regular expression literals
+    if (ch === "/" && regexAllowed()) {
+      const end = scanRegex(source, pos);
+      if (end !== -1) {
+        pos = end;
+        push("regex", source.slice(start, pos), start, startLine, startColumn);
+        continue;
+      }
+    }
+
+    // Braces, which may close a template substitution
+    if (ch === "{") {
+      pos++;
+      braceStack.push("brace");
+      push("punctuator", ch, start, startLine, startColumn);
+      continue;
+    }
+    if (ch === "}") {
+      pos++;
+      if (braceStack.pop() === "template") {
+        scanTemplate(start, startLine, startColumn, false);
+      } else {
+        push("punctuator", ch, start, startLine, startColumn);
+      }
+      continue;
+    }
+
+    // Parentheses, remembering whether they wrap a statement condition
+    if (ch === "(") {
+      const last = tokens[tokens.length - 1];
+      parenStack.push(
+        last?.type === "name" && CONDITION_KEYWORDS.has(last.value),
+      );
+      pos++;
+      push("punctuator", ch, start, startLine, startColumn);
+      continue;
+    }
+    if (ch === ")") {
+      closedCondition = parenStack.pop() ?? false;
+      pos++;
+      push("punctuator", ch, start, startLine, startColumn);
+      continue;
+    }
+
+    // Everything else is a punctuator
+    const punctuator = PUNCTUATORS.find((p) => source.startsWith(p, pos)) ?? ch;
+    pos += punctuator.length;
+    push("punctuator", punctuator, start, startLine, startColumn);
+  }
+
+  return tokens;
+}
+
+/**
+ * Scan a regular expression literal starting at a "/"
+ * @returns Offset just past the literal and its flags, or -1 if the literal
+ * is not terminated on the same line
+ */
+function scanRegex(source: string, start: number): number {
+  let pos = start + 1;
+  let inClass = false;
+  while (pos < source.length) {
+    const ch = source[pos];
+    if (ch === "\n") return -1;
+    if (ch === "\\") {
+      pos += 2;
+      continue;
+    }
+    if (ch === "[") inClass = true;
+    else if (ch === "]") inClass = false;
+    else if (ch === "/" && !inClass) {
+      pos++;
+      while (pos < source.length && ID_CONTINUE.test(source[pos])) pos++;
+      return pos;
+    }
+    pos++;
+  }
+  return -1;
+}
+
+/**
+ * Read an escape sequence starting at a backslash
+ * @returns The unescaped text and the number of source characters consumed
+ */
+function readEscape(source: string, pos: number): [string, number] {
+  const next = source[pos + 1];
+  switch (next) {
+    case "n":
+      return ["\n", 2];
+    case "t":
+      return ["\t", 2];
+    case "r":
+      return ["\r", 2];
+    case "b":
+      return ["\b", 2];
+    case "f":
+      return ["\f", 2];
+    case "v":
+      return ["\v", 2];
+    case "0":
+      return ["\0", 2];
+    case "\r":
+      return ["", source[pos + 2] === "\n" ? 3 : 2];
+    case "\n":
+      return ["", 2];
+    case "x": {
+      const hex = source.slice(pos + 2, pos + 4);
+      if (/^[0-9a-fA-F]{2}$/.test(hex)) {
+        return [String.fromCharCode(parseInt(hex, 16)), 4];
+      }
+      return ["x", 2];
+    }
+    case "u": {
+      const braced = source.slice(pos + 2).match(/^\{([0-9a-fA-F]+)\}/);
+      if (braced) {
+        const codePoint = parseInt(braced[1], 16);
+        const length = 2 + braced[0].length;
+        // Code points past U+10FFFF are a syntax error; keep the raw text
+        return [
+          codePoint <= 0x10ffff
+            ? String.fromCodePoint(codePoint)
+            : source.slice(pos, pos + length),
+          length,
+        ];
+      }
+      const hex = source.slice(pos + 2, pos + 6);
+      if (/^[0-9a-fA-F]{4}$/.test(hex)) {
+        return [String.fromCharCode(parseInt(hex, 16)), 6];
+      }
+      return ["u", 2];
+    }
+    case undefined:
+      return ["", 1];
+    default:
+      return [next, 2];
+  }
+}
@@ -10,6 +10,10 @@ export interface ImporterResult {
   root: string;
   count: number;
   importers: string[];
+  /** Export of the target the importers were filtered by, if any */
+  symbol?: string;
+  /** Details of every import of the target, when available */
+  references?: Importer[];
 }
 
 /**
@@ -22,6 +26,30 @@ export interface Importer {
   importPath: string;
   /** Line number where the import was found */
   lineNumber: number;
+  /** Column of the module specifier (1-based) */
+  column?: number;
+  /**
+   * Kind of edge the import creates ("import", "reexport", "url", "html" or
+   * "mock")
+   */
+  edge?: string;
+  /** Barrel files the import goes through to reach the target */
+  via?: string[];
+  /** Exports of the target the import uses ("*" for a whole namespace) */
+  symbols?: string[];
+  /** Whether the import is "runtime", "type-only", "side-effect" or "mixed" */
+  importKind?: string;
+  /** Whether this is a dynamic import */
+  isDynamic?: boolean;
+  /** Whether the import was expanded from a dynamic import pattern */
+  possible?: boolean;
+  /**
+   * Path the import resolved to, which may go through symbolic links (only
+   * set when reporting real paths)
+   */
+  resolvedPath?: string;
+  /** Real path of the imported file (only set when reporting real paths) */
+  realPath?: string;
 }
 
 /**
@@ -44,29 +72,337 @@ export interface DirectoryImporterResult {
   groups: ImportGroup[];
 }
 
+/**
+ * Interface for a file that imports the target directly or through other
+ * files
+ */
+export interface TransitiveImporter {
+  /** Path of the importing file */
+  sourceFile: string;
+  /** File one step closer to the target that the file imports */
+  importedFile: string;
+  /** The original import path */
+  importPath: string;
+  /** Line number where the import was found */
+  lineNumber: number;
+  /** Number of imports between the file and the target, 1 if it is direct */
+  distance: number;
+  /**
+   * One of the shortest chains of imports from the file to the target,
+   * starting with the file and ending with the target
+   */
+  chain: string[];
+}
+
+/**
+ * Interface for the results data structure for transitive importers
+ */
+export interface TransitiveImporterResult {
+  target: string;
+  root: string;
+  /** Maximum distance searched, if limited */
+  depth?: number;
+  count: number;
+  /** Importers ordered by distance; each imports its `importedFile` */
+  importers: TransitiveImporter[];
+}
+
+/**
+ * Interface for an import of the queried file or of a file it depends on
+ */
+export interface Dependency {
+  /** Path of the file that contains the import */
+  sourceFile: string;
+  /** The original import path */
+  importPath: string;
+  /** The resolved path or URL, or null if the import cannot be resolved */
+  resolvedPath: string | null;
+  /**
+   * npm or JSR package the import names when it is not installed, e.g.
+   * "npm:preact"
+   */
+  package?: string;
+  /** Line number where the import was found */
+  lineNumber: number;
+  /** Column of the module specifier (1-based) */
+  column: number;
+  /** Kind of edge the import creates */
+  edge: string;
+  /** Whether the import is "runtime", "type-only", "side-effect" or "mixed" */
+  importKind: string;
+  /** Whether this is a dynamic import */
+  isDynamic: boolean;
+  /** Number of imports between the queried file and this one, 1 if its own */
+  distance: number;
+}
+
+/**
+ * Interface for the results data structure for dependencies
+ */
+export interface DependencyResult {
+  file: string;
+  /** Whether the imports of the imported files were followed */
+  transitive: boolean;
+  /** Maximum distance searched, if limited */
+  depth?: number;
+  count: number;
+  /** Imports of project files, ordered by distance */
+  dependencies: Dependency[];
+  /**
+   * Imports of packages and remote modules (only set when listing them
+   * separately)
+   */
+  external?: Dependency[];
+  /** Imports that cannot be resolved (only set when listing them separately) */
+  unresolved?: Dependency[];
+}
+
+/**
+ * Interface for an import that is part of a cycle
+ */
+export interface CycleStep {
+  /** Path of the importing file */
+  sourceFile: string;
+  /** Path of the imported file, the next file of the cycle */
+  importedFile: string;
+  /** The original import path */
+  importPath: string;
+  /** Line number where the import was found */
+  lineNumber: number;
+  /** Whether the import is "runtime", "type-only", "side-effect" or "mixed" */
+  importKind: string;
+}
+
+/**
+ * Interface for a group of files that import each other
+ */
+export interface ImportCycle {
+  /** Every file of the group, sorted */
+  files: string[];
+  /**
+   * One of the shortest cycles through the first file, as the imports from
+   * each file to the next, ending back at the first file
+   */
+  chain: CycleStep[];
+  /** Whether the cycle is missing from the baseline (only set with one) */
+  isNew?: boolean;
+}
+
+/**
+ * Interface for the results data structure for import cycles
+ */
+export interface CycleResult {
+  root: string;
+  count: number;
+  /** Number of cycles missing from the baseline (only set with one) */
+  newCount?: number;
+  cycles: ImportCycle[];
+}
+
+/**
+ * Interface for a file the project is run or loaded from
+ */
+export interface EntryPoint {
+  /** Path of the file */
+  file: string;
+  /** Why the file is an entry point, e.g. "package.json main" or "test file" */
+  reason: string;
+}
+
+/**
+ * Interface for the results data structure for orphan files
+ */
+export interface OrphanResult {
+  root: string;
+  /** Number of files scanned */
+  files: number;
+  entries: EntryPoint[];
+  count: number;
+  /** Files not reachable from any entry point */
+  orphans: string[];
+  /** Files no scanned file imports, other than entry points */
+  unimported: string[];
+  /** Files reachable only through dynamic imports, which are not orphans */
+  dynamicOnly: string[];
+}
+
+/**
+ * Interface for an export no scanned file imports
+ */
+export interface UnusedExport {
+  /** Path of the exporting module */
+  file: string;
+  /** Exported name ("default" for the default export) */
+  name: string;
+  /** Line number of the export */
+  lineNumber: number;
+  /** Column of the export (1-based) */
+  column: number;
+  /** Whether the export is a type */
+  isType: boolean;
+  /** Module the name is re-exported from, if any */
+  module?: string;
+}
+
+/**
+ * Interface for the results data structure for unused exports
+ */
+export interface UnusedExportResult {
+  root: string;
+  count: number;
+  exports: UnusedExport[];
+}
+
+/**
+ * Interface for a step of resolving a specifier
+ */
+export interface ResolutionStep {
+  /** What the resolver did or found */
+  message: string;
+  /** Path probed on the file system, if any */
+  path?: string;
+  /** Whether the probed path exists */
+  exists?: boolean;
+}
+
+/**
+ * Interface for the explanation of how a specifier resolves
+ */
+export interface ExplainResult {
+  /** Path of the importing file */
+  importer: string;
+  /** The specifier being resolved */
+  specifier: string;
+  /** Import map used, if any */
+  importMap?: string;
+  /** tsconfig used, if any */
+  tsConfig?: string;
+  /** `.whoimportme.json` used, if any */
+  resolverConfig?: string;
+  /** Every step of the resolution, in order */
+  steps: ResolutionStep[];
+  /** The resolved path, or null if the specifier cannot be resolved */
+  resolvedPath: string | null;
+  /** Whether the resolved path exists */
+  exists: boolean;
+}
+
 /**
  * Format results in human-readable format for file targets
  * @param result The importer result data
  */
 export function formatText(result: ImporterResult): void {
+  const subject = result.symbol === undefined
+    ? `"${result.target}"`
+    : `"${result.symbol}" from "${result.target}"`;
+
   // Summary line
   if (result.count === 0) {
-    console.log(`No files import "${result.target}"`);
+    console.log(`No files import ${subject}`);
   } else if (result.count === 1) {
-    console.log(`1 file imports "${result.target}":`);
+    console.log(`1 file imports ${subject}:`);
   } else {
-    console.log(`${result.count} files import "${result.target}":`);
+    console.log(`${result.count} files import ${subject}:`);
   }
 
-  // Details section
-  if (result.count > 0) {
+  // Details section, listing files that only mock the target separately
+  const mockers = result.importers.filter((importer) =>
+    isMockOnly(importer, result.references)
+  );
+  const importers = result.importers.filter((importer) =>
+    !mockers.includes(importer)
+  );
+  if (importers.length > 0) {
     console.log("Importers:");
-    for (const importer of result.importers) {
+    for (const importer of importers) {
+      const notes = describeReferences(importer, result.references);
+      console.log(notes ? `  ${importer} (${notes})` : `  ${importer}`);
+    }
+  }
+  if (mockers.length > 0) {
+    console.log("Mocks and path references:");
+    for (const importer of mockers) {
       console.log(`  ${importer}`);
     }
   }
 }
 
+/**
+ * Whether every reference of an importer to the target is a mock
+ * @param sourceFile The importing file
+ * @param references Details of every import of the target
+ */
+function isMockOnly(sourceFile: string, references: Importer[] = []): boolean {
+  const own = references.filter((reference) =>
+    reference.sourceFile === sourceFile
+  );
+  return own.length > 0 && own.every((reference) => reference.edge === "mock");
+}
+
+/**
+ * Labels of the edge kinds that differ from a plain import
+ */
+const EDGE_LABELS: Record<string, string> = {
+  reexport: "re-export",
+  url: "url reference",
+  html: "html reference",
+  mock: "mock",
+};
+
+/**
+ * Describe how an importer references the target, e.g. "re-export",
+ * "type-only" or "via src/index.ts"
+ * @param sourceFile The importing file
+ * @param references Details of every import of the target
+ * @returns Comma-separated notes, or an empty string if there is nothing to add
+ */
+function describeReferences(
+  sourceFile: string,
+  references: Importer[] = [],
+): string {
+  const notes = references
+    .filter((reference) => reference.sourceFile === sourceFile)
+    .flatMap(describeReference);
+  return [...new Set(notes)].join(", ");
+}
+
+/**
+ * Notes on a single import of the target: its edge kind or barrel chain, its
+ * import kind, whether it is dynamic and whether it goes through a symlink
+ * @param reference The import
+ */
+function describeReference(reference: Importer): string[] {
+  const notes: string[] = [];
+  if (reference.via && reference.via.length > 0) {
+    notes.push(`via ${reference.via.join(" -> ")}`);
+  } else if (reference.edge && EDGE_LABELS[reference.edge]) {
+    notes.push(EDGE_LABELS[reference.edge]);
+  }
+  if (reference.importKind && reference.importKind !== "runtime") {
+    notes.push(reference.importKind);
+  }
+  if (reference.possible) {
+    notes.push(`possible, dynamic import of "${reference.importPath}"`);
+  } else if (reference.isDynamic) {
+    notes.push("dynamic");
+  }
+  if (symlinked(reference)) {
+    notes.push(`through symlink ${reference.resolvedPath}`);
+  }
+  return notes;
+}
+
+/**
+ * Whether an import reaches the imported file through a symbolic link, as
+ * known when real paths are reported
+ * @param reference The import
+ */
+function symlinked(reference: Importer): boolean {
+  return reference.realPath !== undefined &&
+    reference.resolvedPath !== undefined &&
+    reference.realPath !== reference.resolvedPath;
+}
+
 /**
  * Format results in human-readable format for directory targets
  * @param result The directory importer result data
@@ -88,7 +424,12 @@ export function formatDirectoryText(result: DirectoryImporterResult): void {
       console.log(`imported by`);
     }
     for (const importer of group.importers) {
-      console.log(` ${importer.sourceFile}`);
+      const notes = describeReference(importer);
+      console.log(
+        notes.length > 0
+          ? ` ${importer.sourceFile} (${notes.join(", ")})`
+          : ` ${importer.sourceFile}`,
+      );
     }
   }
 }
@@ -137,3 +478,362 @@ export function formatDirectoryOutput(
     formatDirectoryText(result);
   }
 }
+
+/**
+ * Format transitive importers in human-readable format, as a tree of the
+ * files that import the target and the files that import those
+ * @param result The transitive importer result data
+ */
+export function formatTransitiveText(result: TransitiveImporterResult): void {
+  const depth = result.depth === undefined ? "" : ` (depth ${result.depth})`;
+  if (result.count === 0) {
+    console.log(`No files depend on "${result.target}"${depth}`);
+    return;
+  }
+  console.log(
+    `${result.count} ${
+      result.count === 1 ? "file depends" : "files depend"
+    } on "${result.target}"${depth}:`,
+  );
+
+  // Direct importers hang off the target, the others off the file they import
+  const children = new Map<string | null, TransitiveImporter[]>();
+  for (const importer of result.importers) {
+    const parent = importer.distance === 1 ? null : importer.importedFile;
+    if (!children.has(parent)) {
+      children.set(parent, []);
+    }
+    children.get(parent)!.push(importer);
+  }
+
+  console.log(result.target);
+  const printTree = (parent: string | null, indent: string) => {
+    for (const importer of children.get(parent) ?? []) {
+      console.log(`${indent}${importer.sourceFile}`);
+      printTree(importer.sourceFile, indent + "  ");
+    }
+  };
+  printTree(null, "  ");
+}
+
+/**
+ * Format output based on the json flag for transitive importers
+ * @param result The transitive importer result data
+ * @param json Whether to output in JSON format
+ */
+export function formatTransitiveOutput(
+  result: TransitiveImporterResult,
+  json: boolean,
+): void {
+  if (json) {
+    console.log(JSON.stringify(result, null, 2));
+  } else {
+    formatTransitiveText(result);
+  }
+}
+
+/**
+ * Format dependencies in human-readable format; transitive dependencies are
+ * shown as a tree under the file that imports them
+ * @param result The dependency result data
+ */
+export function formatDependencyText(result: DependencyResult): void {
+  const depth = result.depth === undefined ? "" : ` (depth ${result.depth})`;
+  if (result.count === 0) {
+    console.log(`"${result.file}" imports no project files${depth}`);
+  } else {
+    console.log(
+      `"${result.file}" ${result.transitive ? "depends on" : "imports"} ${
+        result.count === 1 ? "1 project file" : `${result.count} project files`
+      }${depth}:`,
+    );
+  }
+
+  const children = new Map<string, Dependency[]>();
+  for (const dependency of result.dependencies) {
+    if (!children.has(dependency.sourceFile)) {
+      children.set(dependency.sourceFile, []);
+    }
+    children.get(dependency.sourceFile)!.push(dependency);
+  }
+
+  // A file's imports are listed once, under an import of it at its shortest
+  // distance
+  const expanded = new Set<string>();
+  const printTree = (sourceFile: string, indent: string) => {
+    for (const dependency of children.get(sourceFile) ?? []) {
+      console.log(`${indent}${describeDependency(dependency)}`);
+      const resolvedPath = dependency.resolvedPath!;
+      const imports = children.get(resolvedPath) ?? [];
+      if (
+        !expanded.has(resolvedPath) && imports.length > 0 &&
+        imports[0].distance === dependency.distance + 1
+      ) {
+        expanded.add(resolvedPath);
+        printTree(resolvedPath, indent + "  ");
+      }
+    }
+  };
+  if (result.dependencies.length > 0) {
+    // Dependencies are ordered by distance, so the first is the file's own
+    const file = result.dependencies[0].sourceFile;
+    expanded.add(file);
+    printTree(file, "  ");
+  }
+
+  for (
+    const [title, dependencies] of [
+      ["External:", result.external],
+      ["Unresolved:", result.unresolved],
+    ] as const
+  ) {
+    if (dependencies && dependencies.length > 0) {
+      console.log(title);
+      for (const dependency of dependencies) {
+        const location = result.transitive
+          ? `${dependency.sourceFile}:${dependency.lineNumber}`
+          : `line ${dependency.lineNumber}`;
+        const notes = dependency.package === undefined
+          ? location
+          : `${location}, not installed`;
+        const resolved = dependency.resolvedPath ?? dependency.package;
+        console.log(
+          resolved === undefined || resolved === dependency.importPath
+            ? `  "${dependency.importPath}" (${notes})`
+            : `  "${dependency.importPath}" -> ${resolved} (${notes})`,
+        );
+      }
+    }
+  }
+}
+
+/**
+ * Describe an import of a project file, e.g.
+ * `src/util.ts ("./util", line 3, type-only)`
+ * @param dependency The import
+ */
+function describeDependency(dependency: Dependency): string {
+  const notes = [`"${dependency.importPath}"`, `line ${dependency.lineNumber}`];
+  if (dependency.edge !== "import") {
+    notes.push(EDGE_LABELS[dependency.edge] ?? dependency.edge);
+  }
+  if (dependency.importKind !== "runtime") {
+    notes.push(dependency.importKind);
+  }
+  if (dependency.isDynamic) {
+    notes.push("dynamic");
+  }
+  return `${dependency.resolvedPath} (${notes.join(", ")})`;
+}
+
+/**
+ * Format output based on the json flag for dependencies
+ * @param result The dependency result data
+ * @param json Whether to output in JSON format
+ */
+export function formatDependencyOutput(
+  result: DependencyResult,
+  json: boolean,
+): void {
+  if (json) {
+    console.log(JSON.stringify(result, null, 2));
+  } else {
+    formatDependencyText(result);
+  }
+}
+
+/**
+ * Format import cycles in human-readable format, each as the chain of
+ * imports from its first file back to it
+ * @param result The cycle result data
+ */
+export function formatCyclesText(result: CycleResult): void {
+  if (result.count === 0) {
+    console.log(`No import cycles found in "${result.root}"`);
+    return;
+  }
+  const newCount = result.newCount === undefined
+    ? ""
+    : `, ${result.newCount} new`;
+  console.log(
+    `${result.count} import ${
+      result.count === 1 ? "cycle" : "cycles"
+    } found in "${result.root}"${newCount}:`,
+  );
+
+  result.cycles.forEach((cycle, i) => {
+    console.log(`Cycle ${i + 1}${cycle.isNew ? " (new)" : ""}:`);
+    console.log(`  ${cycle.chain[0].sourceFile}`);
+    for (const step of cycle.chain) {
+      const notes = [`"${step.importPath}"`, `line ${step.lineNumber}`];
+      if (step.importKind !== "runtime") {
+        notes.push(step.importKind);
+      }
+      console.log(`    -> ${step.importedFile} (${notes.join(", ")})`);
+    }
+
+    // Files of the group the shortest cycle does not go through
+    const others = cycle.files.filter((file) =>
+      !cycle.chain.some((step) => step.sourceFile === file)
+    );
+    if (others.length > 0) {
+      console.log(`  Also importing each other: ${others.join(", ")}`);
+    }
+  });
+}
+
+/**
+ * Format output based on the json flag for import cycles
+ * @param result The cycle result data
+ * @param json Whether to output in JSON format
+ */
+export function formatCyclesOutput(result: CycleResult, json: boolean): void {
+  if (json) {
+    console.log(JSON.stringify(result, null, 2));
+  } else {
+    formatCyclesText(result);
+  }
+}
+
+/**
+ * Format orphan files in human-readable format
+ * @param result The orphan result data
+ */
+export function formatOrphansText(result: OrphanResult): void {
+  const entries = `${result.entries.length} ${
+    result.entries.length === 1 ? "entry point" : "entry points"
+  }`;
+  if (result.count === 0) {
+    console.log(
+      `All ${result.files} files in "${result.root}" are reachable from ${entries}`,
+    );
+  } else {
+    console.log(
+      `${result.count} of ${result.files} files in "${result.root}" ${
+        result.count === 1 ? "is" : "are"
+      } not reachable from ${entries}:`,
+    );
+    for (const orphan of result.orphans) {
+      console.log(
+        result.unimported.includes(orphan)
+          ? `  ${orphan} (no importers)`
+          : `  ${orphan}`,
+      );
+    }
+  }
+
+  if (result.dynamicOnly.length > 0) {
+    console.log("Reachable only through dynamic imports:");
+    for (const file of result.dynamicOnly) {
+      console.log(`  ${file}`);
+    }
+  }
+}
+
+/**
+ * Format output based on the json flag for orphan files
+ * @param result The orphan result data
+ * @param json Whether to output in JSON format
+ */
+export function formatOrphansOutput(result: OrphanResult, json: boolean): void {
+  if (json) {
+    console.log(JSON.stringify(result, null, 2));
+  } else {
+    formatOrphansText(result);
+  }
+}
+
+/**
+ * Format unused exports in human-readable format, one per line with the file
+ * and line of the export
+ * @param result The unused export result data
+ */
+export function formatUnusedExportsText(result: UnusedExportResult): void {
+  if (result.count === 0) {
+    console.log(`No unused exports in "${result.root}"`);
+    return;
+  }
+  console.log(
+    `${result.count} unused ${
+      result.count === 1 ? "export" : "exports"
+    } in "${result.root}":`,
+  );
+  for (const unused of result.exports) {
+    const notes = [
+      ...(unused.isType ? ["type"] : []),
+      ...(unused.module === undefined
+        ? []
+        : [`re-exported from "${unused.module}"`]),
+    ];
+    console.log(
+      `  ${unused.file}:${unused.lineNumber} ${unused.name}${
+        notes.length > 0 ? ` (${notes.join(", ")})` : ""
+      }`,
+    );
+  }
+}
+
+/**
+ * Format output based on the json flag for unused exports
+ * @param result The unused export result data
+ * @param json Whether to output in JSON format
+ */
+export function formatUnusedExportsOutput(
+  result: UnusedExportResult,
+  json: boolean,
+): void {
+  if (json) {
+    console.log(JSON.stringify(result, null, 2));
+  } else {
+    formatUnusedExportsText(result);
+  }
+}
+
+/**
+ * Format the explanation of a resolution in human-readable format
+ * @param result The explanation
+ */
+export function formatExplainText(result: ExplainResult): void {
+  console.log(`Resolving "${result.specifier}" from ${result.importer}`);
+  console.log(`  import map: ${result.importMap ?? "none"}`);
+  console.log(`  tsconfig: ${result.tsConfig ?? "none"}`);
+  if (result.resolverConfig !== undefined) {
+    console.log(`  resolver config: ${result.resolverConfig}`);
+  }
+  for (const step of result.steps) {
+    if (step.path === undefined) {
+      console.log(`  ${step.message}`);
+    } else {
+      console.log(
+        `  ${step.message} ${step.path}${
+          step.exists === undefined ? "" : step.exists ? " (found)" : ""
+        }`,
+      );
+    }
+  }
+  if (result.resolvedPath === null) {
+    console.log("Result: not resolved");
+  } else {
+    console.log(
+      result.exists
+        ? `Result: ${result.resolvedPath}`
+        : `Result: ${result.resolvedPath} (does not exist)`,
+    );
+  }
+}
+
+/**
+ * Format output based on the json flag for explanations
+ * @param result The explanation
+ * @param json Whether to output in JSON format
+ */
+export function formatExplainOutput(
+  result: ExplainResult,
+  json: boolean,
+): void {
+  if (json) {
+    console.log(JSON.stringify(result, null, 2));
+  } else {
+    formatExplainText(result);
+  }
+}
@@ -0,0 +1,391 @@
+/**
+ * Package resolution for whoimportme
+ *
+ * Resolves bare specifiers the way Node does: the package is looked up in the
+ * `node_modules` directories above the importer, then its package.json
+ * `exports` (with conditions), entry point fields and `browser` field decide
+ * which file the specifier refers to. `#` specifiers are resolved through the
+ * `imports` field of the importer's own package.json.
+ */
+
+import {
+  dirname,
+  join,
+  resolve,
+} from "https://deno.land/std@0.224.0/path/mod.ts";
+
+/**
+ * Value of a package.json `exports` entry: a path, a list of fallbacks, an
+ * object keyed by conditions or subpaths, or null to hide a subpath
+ */
+export type PackageTarget =
+  | string
+  | null
+  | PackageTarget[]
+  | { [key: string]: PackageTarget };
+
+/**
+ * Interface for the package.json fields used for resolution
+ */
+export interface PackageJson {
+  /** Name of the package */
+  name?: string;
+  /** CommonJS entry point */
+  main?: string;
+  /** Executables the package installs, by command name */
+  bin?: string | Record<string, string>;
+  /** ES module entry point, used by bundlers */
+  module?: string;
+  /** Type declarations entry point */
+  types?: string;
+  /** Legacy name of `types` */
+  typings?: string;
+  /** Browser entry point, or replacements of package files for browsers */
+  browser?: string | Record<string, string | false>;
+  /** Subpath exports */
+  exports?: PackageTarget;
+  /** Subpath imports, private to the package (`#internal`) */
+  imports?: Record<string, PackageTarget>;
+  /** tsconfig the package provides to `extends` */
+  tsconfig?: string;
+}
+
+/**
+ * Conditions matched by default, besides "import" or "require" and "default"
+ */
+export const DEFAULT_CONDITIONS = ["node"];
+
+const packageJsonCache = new Map<string, PackageJson | null>();
+const packageDirectoryCache = new Map<string, string | null>();
+const packageScopeCache = new Map<string, string | null>();
+
+/**
+ * Load the package.json of a directory
+ * @param directory Directory containing the package.json
+ * @returns The parsed package.json, or null if it is missing or invalid
+ */
+export function loadPackageJson(directory: string): PackageJson | null {
+  const path = join(directory, "package.json");
+  if (!packageJsonCache.has(path)) {
+    let packageJson: PackageJson | null = null;
+    try {
+      packageJson = JSON.parse(Deno.readTextFileSync(path));
+    } catch {
+      // Missing or invalid package.json
+    }
+    packageJsonCache.set(path, packageJson);
+  }
+  return packageJsonCache.get(path)!;
+}
+
+/**
+ * Split a bare specifier into a package name and a subpath
+ * @param specifier The bare specifier, e.g. "@scope/pkg/utils"
+ * @returns The package name and a subpath such as "." or "./utils", or null
+ * if the specifier is not a bare package specifier
+ */
+export function parsePackageSpecifier(
+  specifier: string,
+): { name: string; subpath: string } | null {
+  const match = specifier.match(/^(@[^/:]+\/[^/:]+|[^./@#:][^/:]*)(\/.*)?$/);
+  if (!match) {
+    return null;
+  }
+  return { name: match[1], subpath: match[2] ? "." + match[2] : "." };
+}
+
+/**
+ * Split a Deno `npm:` or `jsr:` specifier into its registry, package name,
+ * version range and subpath
+ * @param specifier The specifier, e.g. "jsr:@std/path@^1.0.0/join"
+ * @returns The parsed specifier with a subpath such as "." or "./join", or
+ * null if the specifier does not name an npm or JSR package
+ */
+export function parseRegistrySpecifier(specifier: string): {
+  registry: "npm" | "jsr";
+  name: string;
+  version?: string;
+  subpath: string;
+} | null {
+  const match = specifier.match(
+    /^(npm|jsr):\/?(@[^/@]+\/[^/@]+|[^/@]+)(?:@([^/]+))?(\/.*)?$/,
+  );
+  if (!match) {
+    return null;
+  }
+  return {
+    registry: match[1] as "npm" | "jsr",
+    name: match[2],
+    ...(match[3] !== undefined && { version: match[3] }),
+    subpath: match[4] ? "." + match[4] : ".",
+  };
+}
+
+/**
+ * Find a package in the `node_modules` directories above a directory
+ * @param name Name of the package
+ * @param fromDirectory Directory the lookup starts in
+ * @returns Real path of the package directory, so that linked packages
+ * resolve to their source, or null if the package is not installed
+ */
+export function findPackageDirectory(
+  name: string,
+  fromDirectory: string,
+): string | null {
+  const key = `${fromDirectory}\0${name}`;
+  if (packageDirectoryCache.has(key)) {
+    return packageDirectoryCache.get(key)!;
+  }
+
+  let packageDirectory: string | null = null;
+  let directory = resolve(fromDirectory);
+  while (true) {
+    const candidate = join(directory, "node_modules", name);
+    try {
+      if (Deno.statSync(candidate).isDirectory) {
+        packageDirectory = Deno.realPathSync(candidate);
+        break;
+      }
+    } catch {
+      // Not installed at this level
+    }
+    const parent = dirname(directory);
+    if (parent === directory) {
+      break;
+    }
+    directory = parent;
+  }
+
+  packageDirectoryCache.set(key, packageDirectory);
+  return packageDirectory;
+}
+
+/**
+ * Resolve a bare specifier to a path inside an installed package
+ * @param importerPath Path of the file that contains the import
+ * @param specifier The bare specifier
+ * @param conditions Conditions to match in `exports`, e.g. ["node", "import"]
+ * @returns Absolute path the specifier refers to, which may still lack an
+ * extension, or null if it cannot be resolved
+ */
+export function resolvePackageSpecifier(
+  importerPath: string,
+  specifier: string,
+  conditions: string[],
+): string | null {
+  const parsed = parsePackageSpecifier(specifier);
+  if (!parsed) {
+    return null;
+  }
+  const directory = findPackageDirectory(parsed.name, dirname(importerPath));
+  if (!directory) {
+    return null;
+  }
+  return resolvePackagePath(
+    directory,
+    loadPackageJson(directory) ?? {},
+    parsed.subpath,
+    conditions,
+  );
+}
+
+/**
+ * Find the nearest directory containing a package.json, starting at a
+ * directory and walking up
+ * @param fromDirectory Directory the lookup starts in
+ * @returns The package directory, or null if there is none
+ */
+export function findPackageScope(fromDirectory: string): string | null {
+  const directory = resolve(fromDirectory);
+  if (!packageScopeCache.has(directory)) {
+    const parent = dirname(directory);
+    packageScopeCache.set(
+      directory,
+      loadPackageJson(directory)
+        ? directory
+        : parent === directory
+        ? null
+        : findPackageScope(parent),
+    );
+  }
+  return packageScopeCache.get(directory)!;
+}
+
+/**
+ * Resolve a `#` specifier through the `imports` field of the package.json
+ * nearest to the importer
+ * @param importerPath Path of the file that contains the import
+ * @param specifier The specifier, e.g. "#db/client"
+ * @param conditions Conditions to match in `imports`
+ * @returns Absolute path the specifier refers to, which may still lack an
+ * extension, or null if it cannot be resolved
+ */
+export function resolvePackageImports(
+  importerPath: string,
+  specifier: string,
+  conditions: string[],
+): string | null {
+  const scope = findPackageScope(dirname(importerPath));
+  const imports = scope ? loadPackageJson(scope)?.imports : undefined;
+  if (!scope || !imports || typeof imports !== "object") {
+    return null;
+  }
+
+  const target = resolveSubpathMap(imports, specifier, conditions);
+  if (target === null) {
+    return null;
+  }
+  // Targets are paths inside the package or specifiers of other packages
+  return target.startsWith("./") || target.startsWith("../")
+    ? resolve(scope, target)
+    : resolvePackageSpecifier(join(scope, "package.json"), target, conditions);
+}
+
+/**
+ * Resolve a subpath of a package to a path
+ *
+ * `exports`, when present, is authoritative: subpaths it does not list cannot
+ * be imported. Otherwise the entry point is taken from `browser` (with the
+ * "browser" condition), `types` (with "types"), `module` (with "import") or
+ * `main`, and `browser` replacements apply to every resolved file.
+ * @param directory Directory of the package
+ * @param packageJson The package.json of the package
+ * @param subpath "." or a subpath such as "./utils"
+ * @param conditions Conditions to match
+ * @returns Absolute path the subpath refers to, or null if it is not exported
+ */
+export function resolvePackagePath(
+  directory: string,
+  packageJson: PackageJson,
+  subpath: string,
+  conditions: string[],
+): string | null {
+  if (packageJson.exports !== undefined) {
+    const exports = isSubpathMap(packageJson.exports)
+      ? packageJson.exports
+      : { ".": packageJson.exports };
+    const target = resolveSubpathMap(exports, subpath, conditions);
+    return target === null ? null : resolve(directory, target);
+  }
+
+  const browser = conditions.includes("browser")
+    ? packageJson.browser
+    : undefined;
+  let path = subpath;
+  if (subpath === ".") {
+    const types = packageJson.types ?? packageJson.typings;
+    path = (typeof browser === "string" ? browser : undefined) ??
+      (conditions.includes("types") ? types : undefined) ??
+      (conditions.includes("import") ? packageJson.module : undefined) ??
+      packageJson.main ?? "index";
+  }
+
+  // Browser replacements of package files, e.g. { "./lib/node.js": false }
+  if (browser && typeof browser === "object") {
+    const resolved = resolve(directory, path);
+    for (const [file, replacement] of Object.entries(browser)) {
+      const replaced = resolve(directory, file);
+      if (replaced === resolved || replaced === resolved + ".js") {
+        return replacement === false ? null : resolve(directory, replacement);
+      }
+    }
+  }
+
+  return resolve(directory, path);
+}
+
+/**
+ * Look up a key in a map of subpaths, such as package.json `exports`, with
+ * support for `*` patterns and legacy folder mappings ending in "/"
+ * @param map Map of subpaths (or `#` specifiers) to targets
+ * @param key The subpath to look up
+ * @param conditions Conditions to match in the targets
+ * @returns The relative target path, or null if the key is not mapped
+ */
+export function resolveSubpathMap(
+  map: Record<string, PackageTarget>,
+  key: string,
+  conditions: string[],
+): string | null {
+  if (Object.hasOwn(map, key) && !key.includes("*")) {
+    return resolveTarget(map[key], conditions);
+  }
+
+  // The pattern with the longest prefix wins
+  let best: { pattern: string; prefix: string; match: string } | null = null;
+  for (const pattern of Object.keys(map)) {
+    const star = pattern.indexOf("*");
+    const prefix = star === -1 ? pattern : pattern.slice(0, star);
+    const suffix = star === -1 ? "" : pattern.slice(star + 1);
+    if (star === -1 && !pattern.endsWith("/")) {
+      continue;
+    }
+    if (
+      key.startsWith(prefix) && key.endsWith(suffix) &&
+      key.length >= prefix.length + suffix.length &&
+      (!best || prefix.length > best.prefix.length ||
+        (prefix.length === best.prefix.length &&
+          pattern.length > best.pattern.length))
+    ) {
+      best = {
+        pattern,
+        prefix,
+        match: key.slice(prefix.length, key.length - suffix.length),
+      };
+    }
+  }
+
+  return best ? resolveTarget(map[best.pattern], conditions, best.match) : null;
+}
+
+/**
+ * Resolve a target of `exports` or `imports` for the given conditions
+ * @param target The target
+ * @param conditions Conditions to match; "default" always matches
+ * @param match Text matched by a pattern's `*` or a folder mapping
+ * @returns The target path, or null if no condition matches
+ */
+function resolveTarget(
+  target: PackageTarget,
+  conditions: string[],
+  match?: string,
+): string | null {
+  if (typeof target === "string") {
+    if (match === undefined) {
+      return target;
+    }
+    return target.includes("*")
+      ? target.replaceAll("*", match)
+      : target + match;
+  }
+  if (Array.isArray(target)) {
+    for (const fallback of target) {
+      const resolved = resolveTarget(fallback, conditions, match);
+      if (resolved !== null) {
+        return resolved;
+      }
+    }
+    return null;
+  }
+  if (target) {
+    for (const [condition, value] of Object.entries(target)) {
+      if (condition === "default" || conditions.includes(condition)) {
+        const resolved = resolveTarget(value, conditions, match);
+        if (resolved !== null) {
+          return resolved;
+        }
+      }
+    }
+  }
+  return null;
+}
+
+/**
+ * Whether an `exports` value maps subpaths rather than conditions
+ */
+function isSubpathMap(
+  exports: PackageTarget,
+): exports is Record<string, PackageTarget> {
+  return !!exports && typeof exports === "object" && !Array.isArray(exports) &&
+    Object.keys(exports).some((key) => key.startsWith("."));
+}
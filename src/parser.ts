@@ -0,0 +1,1208 @@
+/**
+ * Import extractor for whoimportme
+ *
+ * Walks the token stream produced by the lexer and recognizes import
+ * declarations, re-exports, `require()` calls, dynamic `import()`
+ * expressions (including computed specifiers), module URL references and
+ * test-framework mocks.
+ */
+
+import { type Token, tokenize } from "./lexer.ts";
+
+/**
+ * Kind of dependency edge an import statement creates
+ *
+ * - `import`: the file imports the module for its own use
+ * - `reexport`: the file re-exports the module (`export ... from`)
+ * - `url`: the file references the module by URL, through
+ *   `new URL("./x", import.meta.url)`, `new Worker("./x")` or
+ *   `import.meta.resolve("./x")`
+ * - `html`: an HTML page loads the module through `<script src>` or
+ *   `<link rel="modulepreload">` (or a stylesheet through
+ *   `<link rel="stylesheet">`)
+ * - `mock`: the file mocks the module or refers to it by path without
+ *   importing it, through `jest.mock("./x")`, `vi.mock("./x")`,
+ *   `vi.importActual("./x")`, `mock.module("./x")` or
+ *   `require.resolve("./x")`
+ */
+export type EdgeKind = "import" | "reexport" | "url" | "html" | "mock";
+
+/**
+ * Methods that take a module path, by the object they are called on
+ */
+const MOCK_CALLS: Record<string, string[]> = {
+  jest: [
+    "mock",
+    "unmock",
+    "doMock",
+    "dontMock",
+    "setMock",
+    "requireActual",
+    "requireMock",
+    "createMockFromModule",
+    "unstable_mockModule",
+  ],
+  vi: ["mock", "unmock", "doMock", "doUnmock", "importActual", "importMock"],
+  mock: ["module"],
+  require: ["resolve"],
+};
+
+/**
+ * Whether an import statement matters at runtime or only to the type checker
+ *
+ * - `runtime`: at least one value binding and no type-only ones
+ * - `type-only`: every binding is type-only and is erased at compile time
+ * - `side-effect`: the module is imported for its side effects only
+ *   (`import "./x"`)
+ * - `mixed`: both value and type-only bindings
+ */
+export type ImportKind = "runtime" | "type-only" | "side-effect" | "mixed";
+
+/**
+ * Interface representing a name bound by an import statement
+ */
+export interface ImportBinding {
+  /** How the export is bound */
+  kind: "default" | "named" | "namespace";
+  /**
+   * Name of the imported export: "default" for default bindings and "*" for
+   * namespace bindings
+   */
+  imported: string;
+  /** Local name of the binding, or exported name for re-exports */
+  local: string;
+  /** Whether the binding is type-only (`import type`, `import { type X }`) */
+  isType: boolean;
+  /**
+   * Members accessed through a namespace binding (`ns.member`), or "*" when
+   * the namespace is also used as a whole value; only set for namespace
+   * bindings
+   */
+  members?: string[];
+}
+
+/**
+ * Interface representing an import statement
+ */
+export interface ImportStatement {
+  /** Type of import (ES6, CommonJS, a stylesheet rule or an HTML element) */
+  type: "es6" | "commonjs" | "css" | "html";
+  /** Kind of edge this statement creates */
+  edge: EdgeKind;
+  /** The module path being imported */
+  module: string;
+  /** Whether this is a dynamic import */
+  isDynamic: boolean;
+  /**
+   * Whether `module` is a glob pattern built from a dynamic import whose
+   * specifier is computed, e.g. `./locale/*.ts` for
+   * ``import(`./locale/${lang}.ts`)``
+   */
+  isPattern: boolean;
+  /** Line number of the module specifier */
+  lineNumber: number;
+  /** Column of the module specifier (1-based) */
+  column: number;
+  /** Names bound by the statement */
+  bindings: ImportBinding[];
+  /** Whether the statement matters at runtime or only for type checking */
+  importKind: ImportKind;
+}
+
+/**
+ * Interface representing a name a module exports
+ */
+export interface ExportDeclaration {
+  /** Exported name: "default", or "*" for `export * from` */
+  name: string;
+  /** Specifier of the module the name is re-exported from, if any */
+  module?: string;
+  /**
+   * Name of the export of `module` that is re-exported ("*" for a whole
+   * namespace), only set for re-exports
+   */
+  imported?: string;
+  /** Line number of the export */
+  lineNumber: number;
+  /** Column of the export (1-based) */
+  column: number;
+  /** Whether the export is a type (`export type`, `export interface`) */
+  isType: boolean;
+}
+
+/**
+ * Keywords that start a statement, ending a declaration whose semicolon was
+ * left out
+ */
+const STATEMENT_KEYWORDS = new Set([
+  "export",
+  "import",
+  "const",
+  "let",
+  "var",
+  "function",
+  "class",
+  "if",
+  "for",
+  "while",
+  "do",
+  "return",
+  "throw",
+  "try",
+  "switch",
+  "interface",
+  "type",
+  "enum",
+  "declare",
+]);
+
+/**
+ * Extract all import statements from JavaScript or TypeScript source code
+ * @param source Source code to analyze
+ * @returns Array of import statements in source order
+ */
+export function extractImports(source: string): ImportStatement[] {
+  const tokens = tokenize(source);
+  const imports: ImportStatement[] = [];
+
+  for (let i = 0; i < tokens.length; i++) {
+    const token = tokens[i];
+    if (token.type !== "name" || isPropertyName(tokens, i)) {
+      continue;
+    }
+
+    if (token.value === "import") {
+      const next = tokens[i + 1];
+
+      // typeof import("./module"), let x: import("./module").Type
+      if (isPunctuator(next, "(") && isImportType(tokens, i)) {
+        imports.push({
+          ...createImport("es6", tokens[i + 2], false),
+          importKind: "type-only",
+        });
+        i += 3;
+        continue;
+      }
+
+      // import("./module"), import(`./locale/${lang}.ts`)
+      if (isPunctuator(next, "(")) {
+        const pattern = parseDynamicSpecifier(tokens, i + 2);
+        if (pattern) {
+          const start = isName(tokens[i - 1], "await") ? i - 1 : i;
+          imports.push({
+            ...createImport(
+              "es6",
+              tokens[i + 2],
+              true,
+              "import",
+              parseAssignmentTarget(tokens, start),
+            ),
+            module: pattern.module,
+            isPattern: pattern.isPattern,
+          });
+        }
+        continue;
+      }
+
+      // import.meta.resolve("./module")
+      if (
+        isPunctuator(next, ".") && isName(tokens[i + 2], "meta") &&
+        isPunctuator(tokens[i + 3], ".") && isName(tokens[i + 4], "resolve") &&
+        isPunctuator(tokens[i + 5], "(") && isLiteral(tokens[i + 6]) &&
+        isPunctuator(tokens[i + 7], ")")
+      ) {
+        imports.push(createImport("es6", tokens[i + 6], false, "url"));
+        i += 7;
+        continue;
+      }
+
+      // import "./module"
+      if (next?.type === "string") {
+        imports.push({
+          ...createImport("es6", next, false),
+          importKind: "side-effect",
+        });
+        i++;
+        continue;
+      }
+
+      const bindings: ImportBinding[] = [];
+      const clauseEnd = parseImportClause(tokens, i + 1, bindings);
+      if (clauseEnd === -1) {
+        continue;
+      }
+
+      // import x = require("./module")
+      if (isPunctuator(tokens[clauseEnd], "=")) {
+        const specifier = parseRequireCall(tokens, clauseEnd + 1);
+        if (specifier) {
+          for (const binding of bindings) {
+            binding.kind = "namespace";
+            binding.imported = "*";
+          }
+          imports.push(
+            createImport("commonjs", specifier, false, "import", bindings),
+          );
+          i = clauseEnd + 3;
+        }
+        continue;
+      }
+
+      // import x from "./module"
+      const specifier = tokens[clauseEnd + 1];
+      if (isName(tokens[clauseEnd], "from") && specifier?.type === "string") {
+        imports.push(createImport("es6", specifier, false, "import", bindings));
+        i = clauseEnd + 1;
+      }
+      continue;
+    }
+
+    // export * from "./module", export { x } from "./module"
+    if (token.value === "export") {
+      const bindings: ImportBinding[] = [];
+      const clauseEnd = parseExportClause(tokens, i + 1, bindings);
+      const specifier = tokens[clauseEnd + 1];
+      if (
+        clauseEnd !== -1 && isName(tokens[clauseEnd], "from") &&
+        specifier?.type === "string"
+      ) {
+        imports.push(
+          createImport("es6", specifier, false, "reexport", bindings),
+        );
+        i = clauseEnd + 1;
+      }
+      continue;
+    }
+
+    // new URL("./module", import.meta.url), new Worker("./module")
+    if (token.value === "new") {
+      const specifier = parseUrlReference(tokens, i);
+      if (specifier) {
+        imports.push(createImport("es6", specifier, false, "url"));
+      }
+      continue;
+    }
+
+    // jest.mock("./module"), vi.importActual("./module"),
+    // require.resolve("./module")
+    if (Object.hasOwn(MOCK_CALLS, token.value)) {
+      const specifier = parseMockCall(tokens, i);
+      if (specifier) {
+        imports.push(
+          createImport(
+            token.value === "require" ? "commonjs" : "es6",
+            specifier,
+            false,
+            "mock",
+          ),
+        );
+        continue;
+      }
+    }
+
+    // require("./module")
+    if (token.value === "require") {
+      const specifier = parseRequireCall(tokens, i);
+      if (specifier) {
+        const bindings = parseAssignmentTarget(tokens, i);
+        // require("./module").member
+        if (
+          isPunctuator(tokens[i + 4], ".") && tokens[i + 5]?.type === "name"
+        ) {
+          const local = bindings[0]?.local ?? tokens[i + 5].value;
+          bindings.splice(0, bindings.length, {
+            kind: "named",
+            imported: tokens[i + 5].value,
+            local,
+            isType: false,
+          });
+        }
+        imports.push(
+          createImport("commonjs", specifier, false, "import", bindings),
+        );
+        i += 3;
+      }
+    }
+  }
+
+  collectNamespaceMembers(tokens, imports);
+
+  // Calls such as vi.importActual<typeof import("x")>() are matched before
+  // the imports nested in them
+  return imports.sort((a, b) =>
+    a.lineNumber - b.lineNumber || a.column - b.column
+  );
+}
+
+/**
+ * List the exports of the imported module that an import statement uses:
+ * "default", named exports, members accessed through a namespace binding, or
+ * "*" when a namespace is used as a whole
+ * @param imp The import statement
+ * @returns Names of the exports, without duplicates
+ */
+export function importedSymbols(imp: ImportStatement): string[] {
+  const symbols = new Set<string>();
+  for (const binding of imp.bindings) {
+    if (binding.kind !== "namespace") {
+      symbols.add(binding.imported);
+    } else if (binding.members && binding.members.length > 0) {
+      binding.members.forEach((member) => symbols.add(member));
+    } else {
+      symbols.add("*");
+    }
+  }
+  return [...symbols];
+}
+
+/**
+ * Whether an import statement binds a specific export of the imported module
+ *
+ * Namespace imports only match when the export is accessed as a member of the
+ * namespace. Re-exports of a whole namespace (`export *`) always match.
+ * @param imp The import statement
+ * @param symbol Name of the export ("default" for the default export)
+ * @returns True if the statement binds the export
+ */
+export function bindsSymbol(imp: ImportStatement, symbol: string): boolean {
+  return imp.bindings.some((binding) => {
+    if (binding.kind !== "namespace") {
+      return binding.imported === symbol;
+    }
+    if (imp.edge === "reexport") {
+      return true;
+    }
+    return binding.members?.some((member) =>
+      member === symbol || member === "*"
+    ) ?? false;
+  });
+}
+
+/**
+ * Extract the exports of JavaScript or TypeScript source code: declarations,
+ * export lists, default exports and re-exports
+ *
+ * Exports nested in TypeScript namespaces or ambient module declarations are
+ * not exports of the module and are skipped.
+ * @param source Source code to analyze
+ * @returns The exports in source order
+ */
+export function extractExports(source: string): ExportDeclaration[] {
+  const tokens = tokenize(source);
+  const exports: ExportDeclaration[] = [];
+  let depth = 0;
+
+  for (let i = 0; i < tokens.length; i++) {
+    const token = tokens[i];
+    if (isPunctuator(token, "{")) {
+      depth++;
+    } else if (isPunctuator(token, "}")) {
+      depth--;
+    }
+    if (
+      depth !== 0 || !isName(token, "export") || isPropertyName(tokens, i)
+    ) {
+      continue;
+    }
+    const position = { lineNumber: token.line, column: token.column };
+
+    // export { a, b as c }, export * from "./module"
+    const bindings: ImportBinding[] = [];
+    const clauseEnd = parseExportClause(tokens, i + 1, bindings);
+    if (clauseEnd !== -1) {
+      const specifier = tokens[clauseEnd + 1];
+      const from = isName(tokens[clauseEnd], "from") &&
+          specifier?.type === "string"
+        ? specifier.value
+        : undefined;
+      for (const binding of bindings) {
+        exports.push({
+          name: binding.local,
+          ...(from === undefined
+            ? {}
+            : { module: from, imported: binding.imported }),
+          ...position,
+          isType: binding.isType,
+        });
+      }
+      i = (from === undefined ? clauseEnd : clauseEnd + 1) - 1;
+      continue;
+    }
+
+    // export default ...
+    let j = i + 1;
+    if (isName(tokens[j], "default")) {
+      exports.push({
+        name: "default",
+        ...position,
+        isType: isName(tokens[j + 1], "interface"),
+      });
+      continue;
+    }
+
+    // export declare const enum E, export abstract class C, ...
+    while (
+      isName(tokens[j], "declare") || isName(tokens[j], "async") ||
+      isName(tokens[j], "abstract") ||
+      (isName(tokens[j], "const") && isName(tokens[j + 1], "enum"))
+    ) {
+      j++;
+    }
+    const keyword = tokens[j];
+    if (keyword?.type !== "name") {
+      continue;
+    }
+    if (["const", "let", "var", "using"].includes(keyword.value)) {
+      for (const name of parseDeclarators(tokens, j + 1)) {
+        exports.push({ name, ...position, isType: false });
+      }
+      continue;
+    }
+    if (isPunctuator(tokens[j + 1], "*")) {
+      // export function* generator
+      j++;
+    }
+    const name = tokens[j + 1];
+    if (
+      [
+        "function",
+        "class",
+        "enum",
+        "namespace",
+        "module",
+        "import",
+        "type",
+        "interface",
+      ].includes(keyword.value) && name?.type === "name"
+    ) {
+      exports.push({
+        name: name.value,
+        ...position,
+        isType: keyword.value === "type" || keyword.value === "interface",
+      });
+    }
+  }
+  return exports;
+}
+
+/**
+ * Parse the names a variable declaration binds, as in `a = 1, b = 2` or
+ * `{ a, b: c, ...rest } = object`
+ * @param tokens Token stream
+ * @param start Index of the first token after `const`, `let` or `var`
+ * @returns The bound names
+ */
+function parseDeclarators(tokens: Token[], start: number): string[] {
+  const names: string[] = [];
+  let i = start;
+  while (i < tokens.length) {
+    // The binding: a name or a destructuring pattern
+    if (tokens[i]?.type === "name") {
+      names.push(tokens[i].value);
+      i++;
+    } else if (isPunctuator(tokens[i], "{") || isPunctuator(tokens[i], "[")) {
+      i = parseBindingPattern(tokens, i, names);
+    } else {
+      break;
+    }
+
+    // Its type annotation and initializer, up to the next declarator
+    let depth = 0;
+    let inType = isPunctuator(tokens[i], ":");
+    for (; i < tokens.length; i++) {
+      const token = tokens[i];
+      if (
+        depth === 0 && token.newlineBefore && token.type === "name" &&
+        STATEMENT_KEYWORDS.has(token.value)
+      ) {
+        return names;
+      }
+      if (token.type !== "punctuator") {
+        continue;
+      }
+      if (depth === 0 && (token.value === "," || token.value === ";")) {
+        break;
+      }
+      if (token.value === "=" && depth === 0) {
+        inType = false;
+      } else if (["(", "[", "{"].includes(token.value)) {
+        depth++;
+      } else if ([")", "]", "}"].includes(token.value)) {
+        if (--depth < 0) {
+          return names;
+        }
+      } else if (inType && token.value === "<") {
+        depth++;
+      } else if (inType && /^>+$/.test(token.value)) {
+        depth -= token.value.length;
+      }
+    }
+    if (!isPunctuator(tokens[i], ",")) {
+      break;
+    }
+    i++;
+  }
+  return names;
+}
+
+/**
+ * Parse the names an object or array destructuring pattern binds
+ * @param tokens Token stream
+ * @param start Index of the opening brace or bracket
+ * @param names Array that receives the bound names
+ * @returns Index of the token following the pattern
+ */
+function parseBindingPattern(
+  tokens: Token[],
+  start: number,
+  names: string[],
+): number {
+  let depth = 0;
+  let i = start;
+  for (; i < tokens.length; i++) {
+    const token = tokens[i];
+    if (isPunctuator(token, "{") || isPunctuator(token, "[")) {
+      depth++;
+    } else if (isPunctuator(token, "}") || isPunctuator(token, "]")) {
+      if (--depth === 0) {
+        return i + 1;
+      }
+    } else if (isPunctuator(token, "=")) {
+      // Skip default values
+      let nested = 0;
+      for (i++; i < tokens.length; i++) {
+        const value = tokens[i].type === "punctuator" ? tokens[i].value : "";
+        if (["(", "[", "{"].includes(value)) {
+          nested++;
+        } else if ([")", "]", "}"].includes(value)) {
+          if (--nested < 0) break;
+        } else if (value === "," && nested === 0) {
+          break;
+        }
+      }
+      i--;
+    } else if (
+      token.type === "name" &&
+      [",", "}", "]", "="].some((value) => isPunctuator(tokens[i + 1], value))
+    ) {
+      names.push(token.value);
+    }
+  }
+  return i;
+}
+
+/**
+ * Match a constructor call that references a module by URL:
+ * `new URL("./x", import.meta.url)` or `new Worker("./x")` (also
+ * `SharedWorker`); workers created from `new URL(...)` are matched by the
+ * inner `new URL`
+ * @param tokens Token stream
+ * @param index Index of the `new` token
+ * @returns The specifier token, or null if the tokens are not such a call
+ */
+function parseUrlReference(tokens: Token[], index: number): Token | null {
+  const constructor = tokens[index + 1];
+  const specifier = tokens[index + 3];
+  if (
+    constructor?.type !== "name" || !isPunctuator(tokens[index + 2], "(") ||
+    !isLiteral(specifier)
+  ) {
+    return null;
+  }
+
+  if (constructor.value === "URL") {
+    const base = tokens.slice(index + 4, index + 10);
+    const expected = [",", "import", ".", "meta", ".", "url"];
+    const matches = base.length === expected.length &&
+      base.every((token, k) => token.value === expected[k]);
+    return matches ? specifier : null;
+  }
+
+  if (constructor.value === "Worker" || constructor.value === "SharedWorker") {
+    const next = tokens[index + 4];
+    return isPunctuator(next, ")") || isPunctuator(next, ",")
+      ? specifier
+      : null;
+  }
+
+  return null;
+}
+
+/**
+ * Parse the specifier of a dynamic `import()` call
+ *
+ * Plain string and template literals are returned as is. Template literals
+ * with substitutions and string concatenations are turned into a glob pattern
+ * where every computed part becomes `*`, as long as the specifier starts with
+ * a literal part.
+ * @param tokens Token stream
+ * @param start Index of the first token of the argument
+ * @returns The specifier or pattern, or null if it cannot be determined
+ */
+function parseDynamicSpecifier(
+  tokens: Token[],
+  start: number,
+): { module: string; isPattern: boolean } | null {
+  const first = tokens[start];
+  if (
+    first?.type !== "string" && first?.type !== "template" &&
+    first?.type !== "templateHead"
+  ) {
+    return null;
+  }
+
+  let module = "";
+  let isPattern = false;
+  let depth = 0;
+  // Whether the template literal being read started at the argument level
+  let inTemplate = false;
+
+  const addWildcard = () => {
+    isPattern = true;
+    if (!module.endsWith("*")) {
+      module += "*";
+    }
+  };
+
+  for (let i = start; i < tokens.length; i++) {
+    const token = tokens[i];
+
+    if (depth === 0) {
+      if (isPunctuator(token, ")") || isPunctuator(token, ",")) {
+        break;
+      }
+      if (token.type === "string" || token.type === "template") {
+        module += token.value;
+      } else if (token.type === "templateHead") {
+        module += token.value;
+        inTemplate = true;
+        depth++;
+      } else if (["(", "[", "{"].some((p) => isPunctuator(token, p))) {
+        addWildcard();
+        depth++;
+      } else if (!isPunctuator(token, "+")) {
+        addWildcard();
+      }
+      continue;
+    }
+
+    if (depth === 1 && inTemplate) {
+      if (token.type === "templateMiddle") {
+        addWildcard();
+        module += token.value;
+        continue;
+      }
+      if (token.type === "templateTail") {
+        addWildcard();
+        module += token.value;
+        inTemplate = false;
+        depth--;
+        continue;
+      }
+    }
+
+    if (
+      token.type === "templateHead" ||
+      ["(", "[", "{"].some((p) => isPunctuator(token, p))
+    ) {
+      depth++;
+    } else if (
+      token.type === "templateTail" ||
+      [")", "]", "}"].some((p) => isPunctuator(token, p))
+    ) {
+      depth--;
+    }
+  }
+
+  // A fully computed specifier says nothing about the imported module
+  if (module === "" || module.startsWith("*")) {
+    return null;
+  }
+  return { module, isPattern };
+}
+
+/**
+ * Parse the clause of an import declaration, i.e. everything between the
+ * `import` keyword and `from` (or `=` for TypeScript import-equals)
+ * @param tokens Token stream
+ * @param start Index of the first token after `import`
+ * @param bindings Array that receives the bindings of the clause
+ * @returns Index of the token following the clause, or -1 if the tokens do
+ * not form an import clause
+ */
+function parseImportClause(
+  tokens: Token[],
+  start: number,
+  bindings: ImportBinding[],
+): number {
+  let i = start;
+  let isType = false;
+
+  // import type ...
+  if (isName(tokens[i], "type") && isTypeModifier(tokens, i)) {
+    isType = true;
+    i++;
+  }
+
+  // Default binding
+  if (tokens[i]?.type === "name" && !isName(tokens[i], "from")) {
+    bindings.push({
+      kind: "default",
+      imported: "default",
+      local: tokens[i].value,
+      isType,
+    });
+    i++;
+    if (isPunctuator(tokens[i], "=")) {
+      return i;
+    }
+    if (!isPunctuator(tokens[i], ",")) {
+      return isName(tokens[i], "from") ? i : -1;
+    }
+    i++;
+  } else if (isName(tokens[i], "from") && isName(tokens[i + 1], "from")) {
+    // A default binding that happens to be called "from"
+    bindings.push({
+      kind: "default",
+      imported: "default",
+      local: "from",
+      isType,
+    });
+    return i + 1;
+  }
+
+  // Namespace binding
+  if (isPunctuator(tokens[i], "*")) {
+    if (!isName(tokens[i + 1], "as") || tokens[i + 2]?.type !== "name") {
+      return -1;
+    }
+    bindings.push({
+      kind: "namespace",
+      imported: "*",
+      local: tokens[i + 2].value,
+      isType,
+    });
+    i += 3;
+    return isName(tokens[i], "from") ? i : -1;
+  }
+
+  // Named bindings
+  if (isPunctuator(tokens[i], "{")) {
+    i = parseNamedBindings(tokens, i, isType, bindings);
+    return isName(tokens[i], "from") ? i : -1;
+  }
+
+  return isName(tokens[i], "from") ? i : -1;
+}
+
+/**
+ * Parse the clause of a re-export declaration, i.e. everything between the
+ * `export` keyword and `from`
+ * @param tokens Token stream
+ * @param start Index of the first token after `export`
+ * @param bindings Array that receives the re-exported bindings
+ * @returns Index of the token following the clause, or -1 if the tokens do
+ * not form a re-export clause
+ */
+function parseExportClause(
+  tokens: Token[],
+  start: number,
+  bindings: ImportBinding[],
+): number {
+  let i = start;
+  let isType = false;
+
+  // export type ...
+  if (
+    isName(tokens[i], "type") &&
+    (isPunctuator(tokens[i + 1], "{") || isPunctuator(tokens[i + 1], "*"))
+  ) {
+    isType = true;
+    i++;
+  }
+
+  // export * from, export * as ns from
+  if (isPunctuator(tokens[i], "*")) {
+    i++;
+    let local = "*";
+    if (isName(tokens[i], "as")) {
+      if (tokens[i + 1]?.type !== "name" && tokens[i + 1]?.type !== "string") {
+        return -1;
+      }
+      local = tokens[i + 1].value;
+      i += 2;
+    }
+    bindings.push({ kind: "namespace", imported: "*", local, isType });
+    return i;
+  }
+
+  // export { a, b as c } from
+  if (isPunctuator(tokens[i], "{")) {
+    return parseNamedBindings(tokens, i, isType, bindings);
+  }
+
+  return -1;
+}
+
+/**
+ * Parse a list of named bindings such as `{ a, type B, c as d }`
+ * @param tokens Token stream
+ * @param start Index of the opening brace
+ * @param isType Whether the whole declaration is type-only
+ * @param bindings Array that receives the bindings
+ * @returns Index of the token following the closing brace, or -1 if the
+ * tokens do not form a list of named bindings
+ */
+function parseNamedBindings(
+  tokens: Token[],
+  start: number,
+  isType: boolean,
+  bindings: ImportBinding[],
+): number {
+  let i = start + 1;
+  while (i < tokens.length && !isPunctuator(tokens[i], "}")) {
+    let bindingIsType = isType;
+    const next = tokens[i + 1];
+    if (
+      isName(tokens[i], "type") && isNameOrString(next) && !isName(next, "as")
+    ) {
+      bindingIsType = true;
+      i++;
+    }
+
+    if (!isNameOrString(tokens[i])) {
+      return -1;
+    }
+    const imported = tokens[i].value;
+    let local = imported;
+    i++;
+
+    if (isName(tokens[i], "as")) {
+      if (!isNameOrString(tokens[i + 1])) {
+        return -1;
+      }
+      local = tokens[i + 1].value;
+      i += 2;
+    }
+
+    bindings.push({
+      kind: imported === "default" ? "default" : "named",
+      imported,
+      local,
+      isType: bindingIsType,
+    });
+
+    if (isPunctuator(tokens[i], ",")) {
+      i++;
+    } else if (!isPunctuator(tokens[i], "}")) {
+      return -1;
+    }
+  }
+  return i + 1;
+}
+
+/**
+ * Parse the variable declaration a `require()` or `import()` call is
+ * assigned to, as in `const x = require("y")` or
+ * `const { a, b: c } = await import("y")`
+ * @param tokens Token stream
+ * @param index Index of the first token of the call expression
+ * @returns Bindings of the declaration, empty if the call is not assigned
+ */
+function parseAssignmentTarget(
+  tokens: Token[],
+  index: number,
+): ImportBinding[] {
+  if (!isPunctuator(tokens[index - 1], "=")) {
+    return [];
+  }
+
+  // const x = require("y"), but not module.exports = require("y")
+  const target = tokens[index - 2];
+  if (target?.type === "name") {
+    if (isPropertyName(tokens, index - 2)) {
+      return [];
+    }
+    return [{
+      kind: "namespace",
+      imported: "*",
+      local: target.value,
+      isType: false,
+    }];
+  }
+
+  // const { a, b: c } = require("y")
+  if (!isPunctuator(target, "}")) {
+    return [];
+  }
+  let open = index - 2;
+  let depth = 0;
+  for (; open >= 0; open--) {
+    if (isPunctuator(tokens[open], "}")) depth++;
+    if (isPunctuator(tokens[open], "{")) depth--;
+    if (depth === 0) break;
+  }
+  if (open < 0) {
+    return [];
+  }
+
+  const bindings: ImportBinding[] = [];
+  let i = open + 1;
+  while (i < index - 2) {
+    if (tokens[i].type === "name" && tokens[i].value !== "...") {
+      const imported = tokens[i].value;
+      let local = imported;
+      if (isPunctuator(tokens[i + 1], ":") && tokens[i + 2]?.type === "name") {
+        local = tokens[i + 2].value;
+      }
+      bindings.push({ kind: "named", imported, local, isType: false });
+    }
+    // Skip to the next property of the pattern
+    let nested = 0;
+    for (; i < index - 2; i++) {
+      const token = tokens[i];
+      if (["{", "[", "("].some((p) => isPunctuator(token, p))) nested++;
+      if (["}", "]", ")"].some((p) => isPunctuator(token, p))) nested--;
+      if (nested === 0 && isPunctuator(token, ",")) break;
+    }
+    i++;
+  }
+  return bindings;
+}
+
+/**
+ * Record the members accessed through every namespace binding of the file,
+ * e.g. `ns.member` or `ns["member"]`; a namespace referenced any other way,
+ * such as `use(ns)`, `{ ...ns }` or `export { ns }`, is used as a whole and
+ * gets "*" instead
+ * @param tokens Token stream of the whole file
+ * @param imports Import statements of the file, updated in place
+ */
+function collectNamespaceMembers(
+  tokens: Token[],
+  imports: ImportStatement[],
+): void {
+  const namespaces = new Map<string, Set<string>>();
+  for (const imp of imports) {
+    if (imp.edge !== "import") continue;
+    for (const binding of imp.bindings) {
+      if (binding.kind === "namespace") {
+        namespaces.set(binding.local, new Set());
+      }
+    }
+  }
+  if (namespaces.size === 0) {
+    return;
+  }
+
+  for (let i = 0; i < tokens.length; i++) {
+    const token = tokens[i];
+    const members = namespaces.get(token.value);
+    if (token.type !== "name" || !members || isPropertyName(tokens, i)) {
+      continue;
+    }
+    const accessor = tokens[i + 1];
+    const member = tokens[i + 2];
+    if (
+      (isPunctuator(accessor, ".") || isPunctuator(accessor, "?.")) &&
+      member?.type === "name"
+    ) {
+      members.add(member.value);
+    } else if (
+      isPunctuator(accessor, "[") && member?.type === "string" &&
+      isPunctuator(tokens[i + 3], "]")
+    ) {
+      members.add(member.value);
+    } else if (!isNamespaceDeclaration(tokens, i)) {
+      members.add("*");
+    }
+  }
+
+  for (const imp of imports) {
+    if (imp.edge !== "import") continue;
+    for (const binding of imp.bindings) {
+      if (binding.kind === "namespace") {
+        const members = namespaces.get(binding.local)!;
+        binding.members = members.has("*") ? ["*"] : [...members];
+      }
+    }
+  }
+}
+
+/**
+ * Whether the name at the given index declares a namespace binding rather
+ * than referencing it: `import * as ns`, `import ns = require()` or
+ * `const ns = require()`
+ */
+function isNamespaceDeclaration(tokens: Token[], index: number): boolean {
+  const previous = tokens[index - 1];
+  return isName(previous, "as") ||
+    (isPunctuator(tokens[index + 1], "=") &&
+      ["import", "const", "let", "var"].some((keyword) =>
+        isName(previous, keyword)
+      ));
+}
+
+/**
+ * Whether a `type` token after `import` is the TypeScript type-only modifier
+ * rather than a default binding named "type"
+ */
+function isTypeModifier(tokens: Token[], index: number): boolean {
+  const next = tokens[index + 1];
+  if (!next) return false;
+  if (isPunctuator(next, "{") || isPunctuator(next, "*")) return true;
+  if (next.type !== "name") return false;
+  // `import type from "x"` binds a default export named "type"
+  if (next.value === "from") return isName(tokens[index + 2], "from");
+  return true;
+}
+
+/**
+ * Match `require("specifier")` starting at the `require` token
+ * @returns The specifier token, or null if the tokens are not a require call
+ */
+function parseRequireCall(tokens: Token[], index: number): Token | null {
+  if (
+    isName(tokens[index], "require") &&
+    isPunctuator(tokens[index + 1], "(") &&
+    (tokens[index + 2]?.type === "string" ||
+      tokens[index + 2]?.type === "template") &&
+    isPunctuator(tokens[index + 3], ")")
+  ) {
+    return tokens[index + 2];
+  }
+  return null;
+}
+
+/**
+ * Match a call such as `jest.mock("specifier", factory)` or
+ * `vi.importActual<typeof import("x")>("specifier")` starting at the object
+ * token
+ * @returns The specifier token, or null if the tokens are not a mock call
+ */
+function parseMockCall(tokens: Token[], index: number): Token | null {
+  const method = tokens[index + 2];
+  if (
+    !isPunctuator(tokens[index + 1], ".") || method?.type !== "name" ||
+    !MOCK_CALLS[tokens[index].value].includes(method.value)
+  ) {
+    return null;
+  }
+
+  // Skip type arguments
+  let open = index + 3;
+  if (isPunctuator(tokens[open], "<")) {
+    let depth = 0;
+    for (; open < tokens.length; open++) {
+      const token = tokens[open];
+      if (token.type !== "punctuator") continue;
+      if (token.value === "<") depth++;
+      else if (/^>+$/.test(token.value)) depth -= token.value.length;
+      if (depth <= 0) break;
+    }
+    open++;
+  }
+
+  if (
+    isPunctuator(tokens[open], "(") && isLiteral(tokens[open + 1]) &&
+    (isPunctuator(tokens[open + 2], ")") || isPunctuator(tokens[open + 2], ","))
+  ) {
+    return tokens[open + 1];
+  }
+  return null;
+}
+
+/**
+ * Whether the name at the given index is used as a property name (`a.import`,
+ * `{ require: x }`) rather than as a keyword or free identifier
+ */
+function isPropertyName(tokens: Token[], index: number): boolean {
+  const previous = tokens[index - 1];
+  if (isPunctuator(previous, ".") || isPunctuator(previous, "?.")) {
+    return true;
+  }
+  return isPunctuator(tokens[index + 1], ":") &&
+    (isPunctuator(previous, "{") || isPunctuator(previous, ","));
+}
+
+function isName(token: Token | undefined, value: string): boolean {
+  return token?.type === "name" && token.value === value;
+}
+
+function isLiteral(token: Token | undefined): boolean {
+  return token?.type === "string" || token?.type === "template";
+}
+
+function isNameOrString(token: Token | undefined): boolean {
+  return token?.type === "name" || token?.type === "string";
+}
+
+function isPunctuator(token: Token | undefined, value: string): boolean {
+  return token?.type === "punctuator" && token.value === value;
+}
+
+function createImport(
+  type: ImportStatement["type"],
+  specifier: Token,
+  isDynamic: boolean,
+  edge: EdgeKind = "import",
+  bindings: ImportBinding[] = [],
+): ImportStatement {
+  return {
+    type,
+    edge,
+    module: specifier.value,
+    isDynamic,
+    isPattern: false,
+    lineNumber: specifier.line,
+    column: specifier.column,
+    bindings,
+    importKind: classifyBindings(bindings),
+  };
+}
+
+/**
+ * Classify an import by its bindings; statements without bindings, such as
+ * unassigned `require()` calls or `export * from`, are runtime imports
+ */
+function classifyBindings(bindings: ImportBinding[]): ImportKind {
+  const types = bindings.filter((binding) => binding.isType).length;
+  if (types === 0) {
+    return "runtime";
+  }
+  return types === bindings.length ? "type-only" : "mixed";
+}
+
+/**
+ * Whether the `import("./module")` at the index is an import type, which only
+ * exists for the type checker, rather than a dynamic import: the operand of
+ * `typeof` or a type argument, a module member that is not called, or a type
+ * annotation
+ * @param tokens Token stream
+ * @param index Index of the `import` keyword
+ */
+function isImportType(tokens: Token[], index: number): boolean {
+  if (
+    tokens[index + 2]?.type !== "string" ||
+    !isPunctuator(tokens[index + 3], ")")
+  ) {
+    return false;
+  }
+  const previous = tokens[index - 1];
+  const next = tokens[index + 4];
+  if (isName(previous, "typeof") || isPunctuator(previous, "<")) {
+    return true;
+  }
+  // import("./module").Type, but not import("./module").then(...)
+  if (
+    isPunctuator(next, ".") && tokens[index + 5]?.type === "name" &&
+    !isPunctuator(tokens[index + 6], "(")
+  ) {
+    return true;
+  }
+  // let x: import("./module") = ...
+  return isPunctuator(previous, ":") &&
+    ["=", ";", "|", "&", ">", "["].some((punctuator) =>
+      isPunctuator(next, punctuator)
+    );
+}
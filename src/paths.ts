@@ -0,0 +1,46 @@
+/**
+ * Path identity for whoimportme
+ *
+ * Files are compared by their real path, so that an import reaching a file
+ * through a symbolic link, such as a package in the pnpm store or a linked
+ * workspace package, counts as importing the file itself.
+ */
+
+import { resolve, SEPARATOR } from "https://deno.land/std@0.224.0/path/mod.ts";
+
+const realPathCache = new Map<string, string>();
+
+/**
+ * Find the canonical path of a file or directory
+ * @param path Path of the file or directory
+ * @returns Its real path with every symbolic link resolved, or the absolute
+ * path itself if it does not exist
+ */
+export function canonicalPath(path: string): string {
+  const absolute = resolve(path);
+  let realPath = realPathCache.get(absolute);
+  if (realPath === undefined) {
+    try {
+      realPath = Deno.realPathSync(absolute);
+    } catch {
+      // Missing paths are not cached, as they may be created later
+      return absolute;
+    }
+    realPathCache.set(absolute, realPath);
+  }
+  return realPath;
+}
+
+/**
+ * Whether a path is a directory or inside it, comparing whole path segments
+ * so that `src/util` does not contain `src/utils2`
+ * @param path Absolute path to check
+ * @param directory Absolute path of the directory
+ * @returns Whether the path is the directory or one of its descendants
+ */
+export function isWithinDirectory(path: string, directory: string): boolean {
+  return path === directory ||
+    path.startsWith(
+      directory.endsWith(SEPARATOR) ? directory : directory + SEPARATOR,
+    );
+}
@@ -0,0 +1,180 @@
+/**
+ * Remote module support for whoimportme
+ *
+ * URL specifiers such as `https://deno.land/std@0.224.0/path/mod.ts` resolve
+ * to their URL, so that a URL or URL prefix can be queried like a file or
+ * directory. Remote modules cached by Deno in `DENO_DIR` can be read to
+ * follow the imports between remote modules offline.
+ */
+
+import { join } from "https://deno.land/std@0.224.0/path/mod.ts";
+import { extractFileImports } from "./extractors.ts";
+
+/**
+ * Whether a specifier or path is a remote module URL
+ * @param specifier The specifier
+ * @returns Whether it is an http: or https: URL
+ */
+export function isRemoteUrl(specifier: string): boolean {
+  return /^https?:\/\//i.test(specifier);
+}
+
+/**
+ * Whether a module URL is a URL target or, for a URL prefix, under it
+ * @param url The module URL
+ * @param target The target URL, e.g. "https://deno.land/std@0.224.0"
+ * @returns Whether the module is the target or one of its modules
+ */
+export function matchesUrlTarget(url: string, target: string): boolean {
+  return url === target ||
+    url.startsWith(target.endsWith("/") ? target : target + "/");
+}
+
+/**
+ * Find the default Deno cache directory
+ * @returns `DENO_DIR`, or the platform's default cache location, or null if
+ * the environment cannot be read
+ */
+export function defaultDenoDir(): string | null {
+  try {
+    const denoDir = Deno.env.get("DENO_DIR");
+    if (denoDir) {
+      return denoDir;
+    }
+    if (Deno.build.os === "windows") {
+      const localAppData = Deno.env.get("LOCALAPPDATA");
+      return localAppData ? join(localAppData, "deno") : null;
+    }
+    const home = Deno.env.get("HOME");
+    if (Deno.build.os === "darwin") {
+      return home ? join(home, "Library/Caches/deno") : null;
+    }
+    const cacheHome = Deno.env.get("XDG_CACHE_HOME");
+    return cacheHome
+      ? join(cacheHome, "deno")
+      : home
+      ? join(home, ".cache/deno")
+      : null;
+  } catch {
+    // No permission to read the environment
+    return null;
+  }
+}
+
+/**
+ * Compute the path of a remote module in the Deno cache
+ *
+ * Deno stores a module under `remote/<scheme>/<host>[_PORT<port>]/`, in a file
+ * named after the SHA-256 hash of its path and query.
+ * @param url The module URL
+ * @param denoDir The Deno cache directory
+ * @returns Path of the cached module
+ */
+export async function denoCachePath(
+  url: string,
+  denoDir: string,
+): Promise<string> {
+  const parsed = new URL(url);
+  const host = parsed.port
+    ? `${parsed.hostname}_PORT${parsed.port}`
+    : parsed.hostname;
+  const digest = await crypto.subtle.digest(
+    "SHA-256",
+    new TextEncoder().encode(parsed.pathname + parsed.search),
+  );
+  const hash = Array.from(new Uint8Array(digest))
+    .map((byte) => byte.toString(16).padStart(2, "0"))
+    .join("");
+  return join(denoDir, "remote", parsed.protocol.slice(0, -1), host, hash);
+}
+
+/**
+ * Find the shortest chain of imports from a remote module to a matching
+ * module, reading the modules from the Deno cache
+ * @param url URL of the module the search starts from
+ * @param matches Whether a module URL is the one being searched for
+ * @param denoDir The Deno cache directory
+ * @param imports Imports of the modules read so far, by module URL, shared
+ * between searches
+ * @returns The URLs of the modules imported along the chain, ending with
+ * the matching module, or null if no cached module on the way matches
+ */
+export async function findRemoteChain(
+  url: string,
+  matches: (url: string) => boolean,
+  denoDir: string,
+  imports: Map<string, Promise<string[]>> = new Map(),
+): Promise<string[] | null> {
+  // Breadth-first, remembering which module imported each module first
+  const importedBy = new Map<string, string>();
+  const queue = [url];
+  while (queue.length > 0) {
+    const module = queue.shift()!;
+    if (!imports.has(module)) {
+      imports.set(module, readRemoteImports(module, denoDir));
+    }
+    for (const imported of await imports.get(module)!) {
+      if (imported === url || importedBy.has(imported)) {
+        continue;
+      }
+      importedBy.set(imported, module);
+      if (matches(imported)) {
+        const chain = [imported];
+        for (
+          let importer = module;
+          importer !== url;
+          importer = importedBy.get(importer)!
+        ) {
+          chain.unshift(importer);
+        }
+        return chain;
+      }
+      queue.push(imported);
+    }
+  }
+  return null;
+}
+
+/**
+ * Read the remote modules a cached remote module imports
+ * @param url URL of the module
+ * @param denoDir The Deno cache directory
+ * @returns URLs of the imported modules, or an empty array if the module is
+ * not cached
+ */
+async function readRemoteImports(
+  url: string,
+  denoDir: string,
+): Promise<string[]> {
+  let content: string;
+  try {
+    content = await Deno.readTextFile(await denoCachePath(url, denoDir));
+  } catch {
+    // Not cached
+    return [];
+  }
+  return extractFileImports(new URL(url).pathname, content)
+    .map((imp) => resolveRemoteImport(url, imp.module))
+    .filter((module): module is string => module !== null);
+}
+
+/**
+ * Resolve a specifier imported by a remote module
+ * @param url URL of the importing module
+ * @param specifier The specifier
+ * @returns The URL of the imported module, or null for specifiers that do not
+ * name a remote module
+ */
+function resolveRemoteImport(url: string, specifier: string): string | null {
+  if (
+    !isRemoteUrl(specifier) && !specifier.startsWith("./") &&
+    !specifier.startsWith("../") && !specifier.startsWith("/")
+  ) {
+    return null;
+  }
+  try {
+    return new URL(specifier, url).href;
+  } catch {
+    return null;
+  }
+}
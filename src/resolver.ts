@@ -4,52 +4,101 @@ import {
   basename,
   dirname,
   extname,
+  fromFileUrl,
+  isAbsolute,
   join,
   resolve,
   relative,
 } from "https://deno.land/std@0.224.0/path/mod.ts";
 import { existsSync } from "https://deno.land/std@0.224.0/fs/exists.ts";
+import { globToRegExp } from "https://deno.land/std@0.224.0/path/glob_to_regexp.ts";
 import {
   type ImportGroup,
   type Importer,
-  type DirectoryImporterResult
+  type DirectoryImporterResult,
+  type ExplainResult,
+  type ResolutionStep,
 } from "./output.ts";
+import {
+  bindsSymbol,
+  type EdgeKind,
+  type ImportBinding,
+  importedSymbols,
+  type ImportKind,
+  type ImportStatement,
+} from "./parser.ts";
+import {
+  extractFileImports,
+  HTML_EXTENSIONS,
+  STYLESHEET_EXTENSIONS,
+} from "./extractors.ts";
+import {
+  DEFAULT_CONDITIONS,
+  parsePackageSpecifier,
+  parseRegistrySpecifier,
+  resolvePackageImports,
+  resolvePackageSpecifier,
+} from "./packages.ts";
+import {
+  findResolutionConfig,
+  loadConfigFile,
+  type ResolutionConfig,
+} from "./config.ts";
+import {
+  findImportMap,
+  type ImportMap,
+  matchImportMap,
+} from "./importmap.ts";
+import {
+  matchTsConfigPaths,
+  readTsConfig,
+  rootDirsCandidates,
+  type TsConfig,
+} from "./tsconfig.ts";
+import {
+  matchAlias,
+  RESOLVE_EXTENSIONS,
+  RESOLVE_MAIN_FILES,
+  type ResolverConfig,
+} from "./resolverconfig.ts";
+import { resolveWorkspaceSpecifier } from "./workspaces.ts";
+import { canonicalPath, isWithinDirectory } from "./paths.ts";
+import {
+  defaultDenoDir,
+  findRemoteChain,
+  isRemoteUrl,
+  matchesUrlTarget,
+} from "./remote.ts";
+
+export type {
+  EdgeKind,
+  ImportBinding,
+  ImportKind,
+  ImportMap,
+  ImportStatement,
+  ResolverConfig,
+  TsConfig,
+};
+export { RESOLVE_EXTENSIONS };
 
 /**
- * Interface for import map configuration
- */
-export interface ImportMap {
-  /** Map of import specifiers to their resolved paths */
-  imports?: Record<string, string>;
-  /** Scoped import maps */
-  scopes?: Record<string, Record<string, string>>;
-}
-
-/**
- * Interface for TypeScript configuration
- */
-export interface TsConfig {
-  /** Compiler options */
-  compilerOptions?: {
-    /** Base URL for non-relative module names */
-    baseUrl?: string;
-    /** Path mapping for module names */
-    paths?: Record<string, string[]>;
-  };
-}
-
-/**
- * Interface representing an import statement
+ * Options for resolving a single import
  */
-export interface ImportStatement {
-  /** Type of import (ES6 or CommonJS) */
-  type: "es6" | "commonjs";
-  /** The module path being imported */
-  module: string;
-  /** Whether this is a dynamic import */
-  isDynamic: boolean;
-  /** Line number where the import was found */
-  lineNumber: number;
+export interface ResolveOptions {
+  /**
+   * Package.json `exports` and `imports` conditions to match besides "import"
+   * or "require" and "default" (default: the resolver configuration's, or
+   * ["node"])
+   */
+  conditions?: string[];
+  /** Aliases, extensions and main files of a `.whoimportme.json` */
+  resolverConfig?: ResolverConfig | null;
+  /** Whether the import is a `require()`, matching "require" not "import" */
+  require?: boolean;
+  /** Whether the import is type-only, additionally matching "types" */
+  typeOnly?: boolean;
+  /** Steps of the resolution are appended to this array, when given */
+  trace?: ResolutionStep[];
 }
 
 /**
@@ -62,8 +111,92 @@ export interface ResolvedImport {
   importPath: string;
   /** The resolved absolute path */
   resolvedPath: string;
+  /**
+   * The resolved path with every symbolic link resolved (only set when
+   * reporting real paths)
+   */
+  realPath?: string;
   /** Line number where the import was found */
   lineNumber: number;
+  /** Column of the module specifier (1-based) */
+  column: number;
+  /** Kind of edge the import creates */
+  edge: EdgeKind;
+  /**
+   * Barrel files the import goes through to reach the target, starting with
+   * the file imported by `sourceFile` (only set when following barrels)
+   */
+  via?: string[];
+  /** Exports of the imported module the import uses (see `importedSymbols`) */
+  symbols: string[];
+  /** Whether the import matters at runtime or only for type checking */
+  importKind: ImportKind;
+  /** Whether this is a dynamic import */
+  isDynamic: boolean;
+  /**
+   * Whether the import only possibly reaches the resolved file, because it
+   * was expanded from a dynamic import pattern
+   */
+  possible?: boolean;
+}
+
+/**
+ * Options for finding importers of a directory
+ */
+export interface FindDirectoryImportersOptions {
+  /**
+   * Whether to count dynamic `import()` calls; computed specifiers are
+   * expanded to every matching file and reported as possible importers
+   */
+  includeDynamic?: boolean;
+  /** Only report imports that matter at runtime (excludes type-only imports) */
+  runtimeOnly?: boolean;
+  /** Only report type-only imports */
+  typesOnly?: boolean;
+  /**
+   * Whether to leave out test-framework mocks and path references such as
+   * `jest.mock("./x")` or `require.resolve("./x")`
+   */
+  excludeMocks?: boolean;
+  /**
+   * Package.json `exports` and `imports` conditions to match besides "import"
+   * or "require" and "default" (default: the resolver configuration's, or
+   * ["node"])
+   */
+  conditions?: string[];
+  /**
+   * Configuration file (import map, deno.json, tsconfig or .whoimportme.json)
+   * to resolve every file with, instead of the configuration nearest to each
+   * file
+   */
+  config?: string;
+  /**
+   * Whether to report the real path of every imported file besides the path
+   * it was imported by, which differ when the import goes through a symbolic
+   * link
+   */
+  realPaths?: boolean;
+}
+
+/**
+ * Options for finding importers
+ */
+export interface FindImportersOptions extends FindDirectoryImportersOptions {
+  /**
+   * Whether to follow re-exporting barrel files, so that importing a barrel
+   * counts as importing the modules it re-exports
+   */
+  followBarrels?: boolean;
+  /** Only report importers that bind this export of the target */
+  symbol?: string;
+  /**
+   * Whether to follow imports between remote modules cached by Deno, so that
+   * importing a remote module counts as importing the remote modules it
+   * imports (URL targets only)
+   */
+  followRemote?: boolean;
+  /** Deno cache directory to read remote modules from (default: DENO_DIR) */
+  denoDir?: string;
 }
 
 /**
@@ -85,130 +218,7 @@ export async function parseImports(
     }
 
     const content = await Deno.readTextFile(filePath);
-    const lines = content.split("\n");
-
-    // More comprehensive regex patterns for different import syntaxes
-    const es6ImportPatterns = [
-      // import x from './file'
-      /^\s*import\s+[\w$]+\s+from\s+["'](.*?(?:\.(?:js|jsx|ts|tsx|mjs|cjs))?)["']\s*;/,
-      // import { x } from './file'
-      /^\s*import\s+{[^}]*}\s+from\s+["'](.*?(?:\.(?:js|jsx|ts|tsx|mjs|cjs))?)["']\s*;/,
-      // import * as x from './file'
-      /^\s*import\s+\*\s+as\s+[\w$]+\s+from\s+["'](.*?(?:\.(?:js|jsx|ts|tsx|mjs|cjs))?)["']\s*;/,
-      // import './file'
-      /^\s*import\s+["'](.*?(?:\.(?:js|jsx|ts|tsx|mjs|cjs))?)["']\s*;/,
-      // import x, { y } from './file'
-      /^\s*import\s+[\w$]+,\s*{[^}]*}\s+from\s+["'](.*?(?:\.(?:js|jsx|ts|tsx|mjs|cjs))?)["']\s*;/,
-      // import type { x } from './file' (TypeScript)
-      /^\s*import\s+type\s+{[^}]*}\s+from\s+["'](.*?(?:\.(?:js|jsx|ts|tsx|mjs|cjs))?)["']\s*;/,
-    ];
-
-    const cjsRequirePatterns = [
-      // const x = require('./file')
-      /(?:const|let|var)\s+[\w$]+\s*=\s*require\(["'](.*?(?:\.(?:js|jsx|ts|tsx|mjs|cjs))?)["']\)/,
-      // const { x } = require('./file')
-      /(?:const|let|var)\s+{[^}]*}\s*=\s*require\(["'](.*?(?:\.(?:js|jsx|ts|tsx|mjs|cjs))?)["']\)/,
-      // const x = require('./file').something
-      /(?:const|let|var)\s+[\w$]+\s*=\s*require\(["'](.*?(?:\.(?:js|jsx|ts|tsx|mjs|cjs))?)["']\)\.[\w$]+/,
-      // require('./file')
-      /require\(["'](.*?(?:\.(?:js|jsx|ts|tsx|mjs|cjs))?)["']\)/,
-      // import x = require('./file') (TypeScript)
-      /import\s+[\w$]+\s*=\s*require\(["'](.*?(?:\.(?:js|jsx|ts|tsx|mjs|cjs))?)["']\)/,
-    ];
-
-    const dynamicImportPattern =
-      /import\(["'](.*?(?:\.(?:js|jsx|ts|tsx|mjs|cjs))?)["']\)/;
-
-    // Handle multi-line imports
-    let multiLineImport = "";
-    let multiLineImportStartLine = 0;
-
-    for (let i = 0; i < lines.length; i++) {
-      const line = lines[i];
-      const lineNumber = i + 1;
-
-      // Skip empty lines and comments
-      if (!line.trim() || line.trim().startsWith("//")) {
-        continue;
-      }
-
-      // Handle multi-line imports
-      if (
-        line.includes("import") && line.includes("{") && !line.includes("}")
-      ) {
-        multiLineImport = line;
-        multiLineImportStartLine = lineNumber;
-        continue;
-      }
-
-      if (multiLineImport && !line.includes("from")) {
-        multiLineImport += " " + line.trim();
-        continue;
-      }
-
-      if (multiLineImport && line.includes("from")) {
-        multiLineImport += " " + line.trim();
-        const match = multiLineImport.match(
-          /^\s*import\s+{[^}]*}\s+from\s+["'](.*?(?:\.(?:js|jsx|ts|tsx|mjs|cjs))?)["']\s*;/,
-        );
-        if (match) {
-          imports.push({
-            type: "es6",
-            module: match[1],
-            isDynamic: false,
-            lineNumber: multiLineImportStartLine,
-          });
-        }
-        multiLineImport = "";
-        continue;
-      }
-
-      // Match ES6 import statements
-      let matched = false;
-      for (const pattern of es6ImportPatterns) {
-        const match = line.match(pattern);
-        if (match) {
-          imports.push({
-            type: "es6",
-            module: match[1],
-            isDynamic: false,
-            lineNumber,
-          });
-          matched = true;
-          break;
-        }
-      }
-
-      if (matched) continue;
-
-      // Match CommonJS require statements
-      for (const pattern of cjsRequirePatterns) {
-        const match = line.match(pattern);
-        if (match) {
-          imports.push({
-            type: "commonjs",
-            module: match[1],
-            isDynamic: false,
-            lineNumber,
-          });
-          matched = true;
-          break;
-        }
-      }
-
-      if (matched) continue;
-
-      // Match dynamic imports (to ignore them)
-      const dynamicMatch = line.match(dynamicImportPattern);
-      if (dynamicMatch) {
-        imports.push({
-          type: "es6",
-          module: dynamicMatch[1],
-          isDynamic: true,
-          lineNumber,
-        });
-      }
-    }
+    imports.push(...extractFileImports(filePath, content));
   } catch (error) {
     if (error instanceof Deno.errors.NotFound) {
       throw error;
@@ -222,32 +232,25 @@ export async function parseImports(
 }
 
 /**
- * Load import map from file
- * @param rootPath Root directory to search for import_map.json
+ * Load import map from deno.json, deno.jsonc or import_map.json
+ * @param rootPath Root directory to search for the configuration files
  * @returns ImportMap object or null if not found
  * @throws {Error} If there's an error reading or parsing the import map
  */
 export async function loadImportMap(
   rootPath: string,
 ): Promise<ImportMap | null> {
-  const importMapPath = join(rootPath, "import_map.json");
-  if (existsSync(importMapPath)) {
-    try {
-      const content = await Deno.readTextFile(importMapPath);
-      return JSON.parse(content);
-    } catch (error) {
-      throw new Error(
-        `Error loading import map from ${importMapPath}: ${
-          (error as Error).message
-        }`,
-      );
-    }
+  try {
+    return await findImportMap(rootPath);
+  } catch (error) {
+    throw new Error(
+      `Error loading import map from ${rootPath}: ${(error as Error).message}`,
+    );
   }
-  return null;
 }
 
 /**
- * Load tsconfig from file
+ * Load tsconfig from file, following its `extends` chain
  * @param rootPath Root directory to search for tsconfig.json
  * @returns TsConfig object or null if not found
  * @throws {Error} If there's an error reading or parsing the tsconfig
@@ -256,8 +259,7 @@ export async function loadTsConfig(rootPath: string): Promise<TsConfig | null> {
   const tsConfigPath = join(rootPath, "tsconfig.json");
   if (existsSync(tsConfigPath)) {
     try {
-      const content = await Deno.readTextFile(tsConfigPath);
-      return JSON.parse(content);
+      return await readTsConfig(tsConfigPath);
     } catch (error) {
       throw new Error(
         `Error loading tsconfig from ${tsConfigPath}: ${
@@ -269,12 +271,143 @@ export async function loadTsConfig(rootPath: string): Promise<TsConfig | null> {
   return null;
 }
 
+/**
+ * Load the configuration file given with the `config` option
+ * @param path Path of the configuration file, if any
+ * @returns The configuration it defines, or undefined without a file
+ * @throws {Error} If the file cannot be read or parsed
+ */
+export async function loadConfigOverride(
+  path: string | undefined,
+): Promise<Partial<ResolutionConfig> | undefined> {
+  if (path === undefined) {
+    return undefined;
+  }
+  try {
+    return await loadConfigFile(path);
+  } catch (error) {
+    throw new Error(
+      `Error loading config from ${path}: ${(error as Error).message}`,
+    );
+  }
+}
+
+/**
+ * Resolve a stylesheet reference the way Sass and Less do: the path itself,
+ * its partial (`_name.scss`), the stylesheet extensions and finally the
+ * `index` or `_index` file of a directory
+ * @param path Absolute path of the reference
+ * @returns Path of the referenced file or null if none exists
+ */
+function resolveStylesheetPath(
+  path: string,
+  trace?: ResolutionStep[],
+): string | null {
+  const directory = dirname(path);
+  const names = [basename(path), "_" + basename(path)];
+  const candidates = extname(path)
+    ? names.map((name) => join(directory, name))
+    : names.flatMap((name) =>
+      STYLESHEET_EXTENSIONS.map((ext) => join(directory, name + ext))
+    );
+  for (const index of ["index", "_index"]) {
+    for (const ext of STYLESHEET_EXTENSIONS) {
+      candidates.push(join(path, index + ext));
+    }
+  }
+
+  return candidates.find((candidate) => {
+    let exists = false;
+    try {
+      exists = Deno.statSync(candidate).isFile;
+    } catch {
+      // Not a file
+    }
+    trace?.push({ message: "try", path: candidate, exists });
+    return exists;
+  }) ?? null;
+}
+
+/**
+ * Resolve an absolute module path to an existing file, trying the module
+ * extensions and the main files of directories
+ * @param resolved Absolute path of the module
+ * @param options The resolver configuration and trace, if any
+ * @returns Path of the file, or the path itself if no file matches
+ */
+function resolveFile(resolved: string, options: ResolveOptions = {}): string {
+  const { trace, resolverConfig } = options;
+  const extensions = resolverConfig?.extensions ?? RESOLVE_EXTENSIONS;
+
+  // Try different extensions if the path is not a file
+  let isDirectory = false;
+  try {
+    const stat = Deno.statSync(resolved);
+    if (stat.isFile) {
+      trace?.push({ message: "try", path: resolved, exists: true });
+      return resolved;
+    }
+    isDirectory = stat.isDirectory;
+  } catch {
+    // Nothing exists at the path, continue with extension checking
+  }
+  if (!isDirectory) {
+    trace?.push({ message: "try", path: resolved, exists: false });
+  }
+
+  // Check if the path already has an extension
+  const hasExtension = /\.[^/.]+$/.test(resolved);
+  const base = hasExtension ? resolved.replace(/\.[^/.]+$/, "") : resolved;
+
+  // Try different extensions
+  for (const ext of extensions) {
+    const withExt = base + ext;
+    if (probe(withExt, trace)) {
+      return withExt;
+    }
+  }
+
+  // A directory resolves to its main file, or to itself without one
+  if (isDirectory) {
+    for (const mainFile of resolverConfig?.mainFiles ?? RESOLVE_MAIN_FILES) {
+      for (const ext of extensions) {
+        const mainPath = join(resolved, mainFile + ext);
+        if (probe(mainPath, trace)) {
+          return mainPath;
+        }
+      }
+    }
+    return resolved;
+  }
+
+  // If the path didn't originally have an extension, also try the path as-is
+  // This handles cases where there's a file without an extension
+  if (!hasExtension && existsSync(resolved)) {
+    return resolved;
+  }
+
+  return resolved;
+}
+
+/**
+ * Check whether a path exists, recording the probe in the trace
+ * @param path Path to check
+ * @param trace Steps of the resolution, if traced
+ * @returns Whether the path exists
+ */
+function probe(path: string, trace?: ResolutionStep[]): boolean {
+  const exists = existsSync(path);
+  trace?.push({ message: "try", path, exists });
+  return exists;
+}
+
 /**
  * Resolve a module path to an absolute path
  * @param importerPath Path of the file that contains the import
  * @param importPath The import path to resolve
  * @param importMap Optional import map to use for resolution
  * @param tsConfig Optional tsconfig to use for resolution
+ * @param options Options for resolving bare specifiers through node_modules
  * @returns Resolved absolute path or null if cannot be resolved
  */
 export function resolveImportPath(
@@ -282,168 +415,409 @@ export function resolveImportPath(
   importPath: string,
   importMap?: ImportMap | null,
   tsConfig?: TsConfig | null,
+  options: ResolveOptions = {},
 ): string | null {
+  const { trace, resolverConfig } = options;
   try {
-    // Handle import maps
-    if (importMap?.imports) {
-      // Check for exact match
-      if (importMap.imports[importPath]) {
-        return resolve(dirname(importerPath), importMap.imports[importPath]);
+    // Handle import maps; addresses that are not paths, such as
+    // "npm:preact", are resolved like the specifier they replace
+    if (importMap) {
+      const match = matchImportMap(
+        importMap,
+        importerPath,
+        importPath,
+        importMap.configPath
+          ? dirname(importMap.configPath)
+          : dirname(importerPath),
+      );
+      trace?.push({
+        message: match
+          ? `import map entry "${match.key}"${
+            match.scope === undefined ? "" : ` in scope "${match.scope}"`
+          } maps it to ${match.address}`
+          : "no import map entry matches",
+      });
+      if (match?.address.startsWith("/")) {
+        return resolveFile(match.address, options);
       }
-
-      // Check for prefix matches
-      for (const [prefix, replacement] of Object.entries(importMap.imports)) {
-        if (importPath.startsWith(prefix)) {
-          const remainder = importPath.slice(prefix.length);
-          return resolve(dirname(importerPath), replacement, remainder);
-        }
+      if (match) {
+        importPath = match.address;
       }
     }
 
-    // Handle tsconfig paths
-    if (tsConfig?.compilerOptions?.paths && tsConfig.compilerOptions.baseUrl) {
-      const baseUrl = tsConfig.compilerOptions.baseUrl;
-
-      for (
-        const [pattern, replacements] of Object.entries(
-          tsConfig.compilerOptions.paths,
-        )
-      ) {
-        // Convert pattern to regex (handle * wildcards)
-        const regexPattern = pattern.replace(/\*/g, "(.*)").replace(
-          /[-\/\\^$*+?.()|[\]{}]/g,
-          "\\$&",
+    // Handle bundler aliases, trying the path targets in order up to the
+    // first target that is a specifier, such as "preact/compat"
+    if (resolverConfig?.alias) {
+      const match = matchAlias(
+        resolverConfig,
+        importPath,
+        resolverConfig.configPath
+          ? dirname(resolverConfig.configPath)
+          : dirname(importerPath),
+      );
+      if (match) {
+        trace?.push({ message: `alias "${match.key}"` });
+        const specifier = match.candidates.find((candidate) =>
+          !candidate.startsWith("/")
         );
-        const regex = new RegExp(`^${regexPattern}$`);
-
-        const match = importPath.match(regex);
-        if (match && replacements.length > 0) {
-          // Replace * in the replacement with the captured group
-          let replacement = replacements[0];
-          if (match.length > 1) {
-            replacement = replacement.replace(/\*/g, match[1]);
+        for (const candidate of match.candidates) {
+          if (candidate === specifier) {
+            break;
+          }
+          const file = resolveFile(candidate, options);
+          if (existsSync(file)) {
+            return file;
           }
+        }
+        if (specifier === undefined) {
+          trace?.push({ message: "no alias target exists" });
+          return null;
+        }
+        importPath = specifier;
+        trace?.push({ message: `alias maps it to ${importPath}` });
+      }
+    }
+
+    // Remote modules resolve to their URL, file: URLs to their path
+    if (isRemoteUrl(importPath)) {
+      const url = new URL(importPath).href;
+      trace?.push({ message: `remote module ${url}` });
+      return url;
+    }
+    if (importPath.startsWith("file:")) {
+      importPath = fromFileUrl(importPath);
+      trace?.push({ message: `file URL ${importPath}` });
+    }
 
-          return resolve(dirname(importerPath), baseUrl, replacement);
+    // Handle tsconfig paths, trying every substitution in order, then
+    // non-relative names relative to baseUrl; like TypeScript, relative and
+    // absolute paths skip both
+    const configDirectory = tsConfig?.configPath
+      ? dirname(tsConfig.configPath)
+      : dirname(importerPath);
+    const isPath = importPath.startsWith("./") ||
+      importPath.startsWith("../") || isAbsolute(importPath);
+    if (tsConfig && !isPath) {
+      const match = matchTsConfigPaths(tsConfig, importPath, configDirectory);
+      const candidates = match?.candidates ?? [];
+      if (match) {
+        trace?.push({ message: `tsconfig paths pattern "${match.pattern}"` });
+      }
+      const baseUrl = tsConfig.compilerOptions?.baseUrl;
+      if (baseUrl !== undefined && parsePackageSpecifier(importPath)) {
+        trace?.push({ message: `tsconfig baseUrl "${baseUrl}"` });
+        candidates.push(resolve(configDirectory, baseUrl, importPath));
+      }
+      for (const candidate of candidates) {
+        const file = resolveFile(candidate, options);
+        if (existsSync(file)) {
+          return file;
         }
       }
     }
 
+    // Stylesheets resolve bare references relative to themselves, like URLs
+    const fromStylesheet = STYLESHEET_EXTENSIONS.includes(
+      extname(importerPath).toLowerCase(),
+    );
+    if (fromStylesheet && /^[^./~][^:]*$/.test(importPath)) {
+      importPath = "./" + importPath;
+      trace?.push({ message: `stylesheet reference read as ${importPath}` });
+    }
+
+    // HTML pages are served from their directory, so root URLs start there
+    const fromHtml = HTML_EXTENSIONS.includes(
+      extname(importerPath).toLowerCase(),
+    );
+    if (fromHtml && /^\/(?!\/)/.test(importPath)) {
+      importPath = "." + importPath;
+      trace?.push({ message: `root URL read as ${importPath}` });
+    }
+
     // Handle relative paths
     if (importPath.startsWith("./") || importPath.startsWith("../")) {
       const resolved = resolve(dirname(importerPath), importPath);
+      trace?.push({ message: `relative path ${resolved}` });
 
-      // Try different extensions if file doesn't exist
-      if (existsSync(resolved)) {
-        return resolved;
+      if (fromStylesheet) {
+        return resolveStylesheetPath(resolved, trace) ?? resolved;
       }
 
-      const extensions = [".ts", ".tsx", ".js", ".jsx", ".mjs", ".cjs"];
-      // Check if the path already has an extension
-      const hasExtension = /\.[^/.]+$/.test(resolved);
-      const base = hasExtension ? resolved.replace(/\.[^/.]+$/, "") : resolved;
-
-      // If it's a directory, look for index files
-      try {
-        const stat = Deno.statSync(resolved);
-        if (stat.isDirectory) {
-          for (const ext of extensions) {
-            const indexPath = join(resolved, "index" + ext);
-            if (existsSync(indexPath)) {
-              return indexPath;
-            }
+      // With rootDirs, a missing file may be found in another root
+      const file = resolveFile(resolved, options);
+      if (!existsSync(file) && tsConfig) {
+        for (
+          const candidate of rootDirsCandidates(
+            tsConfig,
+            resolved,
+            configDirectory,
+          )
+        ) {
+          trace?.push({ message: `tsconfig rootDirs ${candidate}` });
+          const rootDirFile = resolveFile(candidate, options);
+          if (existsSync(rootDirFile)) {
+            return rootDirFile;
           }
         }
-      } catch {
-        // Directory doesn't exist, continue with extension checking
-      }
-
-      // Try different extensions
-      for (const ext of extensions) {
-        const withExt = base + ext;
-        if (existsSync(withExt)) {
-          return withExt;
-        }
-      }
-
-      // If the path didn't originally have an extension, also try the path as-is
-      // This handles cases where there's a file without an extension
-      if (!hasExtension && existsSync(resolved)) {
-        return resolved;
       }
-
-      return resolved;
+      return file;
     }
 
     // Handle absolute paths
     if (importPath.startsWith("/")) {
-      if (existsSync(importPath)) {
+      if (probe(importPath, trace)) {
         return importPath;
       }
 
       // For absolute paths, also try different extensions if the path doesn't exist as-is
-      const extensions = [".ts", ".tsx", ".js", ".jsx", ".mjs", ".cjs"];
       // Check if the path already has an extension
       const hasExtension = /\.[^/.]+$/.test(importPath);
       const base = hasExtension ? importPath.replace(/\.[^/.]+$/, "") : importPath;
 
       // Try different extensions
-      for (const ext of extensions) {
+      for (const ext of resolverConfig?.extensions ?? RESOLVE_EXTENSIONS) {
         const withExt = base + ext;
-        if (existsSync(withExt)) {
+        if (probe(withExt, trace)) {
           return withExt;
         }
       }
 
       // If the path didn't originally have an extension, return null if no extension worked
       // This maintains the original behavior for absolute paths
+      trace?.push({ message: "no file matches the absolute path" });
       return null;
     }
 
-    // For other cases (node_modules, etc.), we can't resolve without more context
-    return null;
+    const conditions = [
+      ...(options.conditions ?? resolverConfig?.conditions ??
+        DEFAULT_CONDITIONS),
+      options.require ? "require" : "import",
+      ...(options.typeOnly ? ["types"] : []),
+    ];
+
+    // npm: and jsr: specifiers name packages installed in node_modules
+    const registry = parseRegistrySpecifier(importPath);
+    if (registry) {
+      importPath = registry.name + registry.subpath.slice(1);
+      trace?.push({
+        message: `${registry.registry}: specifier names package ${importPath}`,
+      });
+    }
+
+    // Handle package.json subpath imports and bare specifiers through
+    // node_modules, preferring the local sources of workspace packages
+    trace?.push({ message: `conditions ${conditions.join(", ")}` });
+    let packagePath: string | null;
+    if (importPath.startsWith("#")) {
+      packagePath = resolvePackageImports(importerPath, importPath, conditions);
+      trace?.push({
+        message: packagePath === null
+          ? "no package.json imports entry matches"
+          : `package.json imports map it to ${packagePath}`,
+      });
+    } else if (!parsePackageSpecifier(importPath)) {
+      trace?.push({ message: "not a path or package specifier" });
+      return null;
+    } else {
+      packagePath = resolveWorkspaceSpecifier(
+        importerPath,
+        importPath,
+        conditions,
+      );
+      if (packagePath !== null) {
+        trace?.push({ message: `workspace package maps it to ${packagePath}` });
+      } else {
+        packagePath = resolvePackageSpecifier(
+          importerPath,
+          importPath,
+          conditions,
+        );
+        trace?.push({
+          message: packagePath === null
+            ? "package not installed in node_modules or subpath not exported"
+            : `node_modules package maps it to ${packagePath}`,
+        });
+      }
+    }
+    return packagePath === null ? null : resolveFile(packagePath, options);
   } catch (error) {
     console.error(
       `Error resolving import path '${importPath}' in '${importerPath}':`,
       error,
     );
+    trace?.push({ message: `error: ${(error as Error).message}` });
     return null;
   }
 }
 
 /**
- * Find all files that import a specific target file or directory
- * @param targetFilePath The file or directory to search for imports of
- * @param files List of files to search through
- * @param rootPath Root directory for resolving paths
- * @returns Array of files that import the target file or directory
- * @throws {Deno.errors.NotFound} If the target file doesn't exist
- * @throws {Error} If there's an error processing any of the files
+ * Find the npm or JSR package a specifier names, directly or through an
+ * import map, whether or not it is installed in node_modules
+ * @param importerPath Path of the file that contains the import
+ * @param importPath The import path
+ * @param importMap Optional import map to use for resolution
+ * @returns The registry and name of the package, e.g. "jsr:@std/path", or
+ * null if the specifier does not name a registry package
  */
-export async function findImporters(
-  targetFilePath: string,
-  files: string[],
-  rootPath: string,
-): Promise<ResolvedImport[]> {
-  const importers: ResolvedImport[] = [];
-
-  // Load configuration files
-  let importMap: ImportMap | null = null;
-  let tsConfig: TsConfig | null = null;
+export function resolveRegistryPackage(
+  importerPath: string,
+  importPath: string,
+  importMap?: ImportMap | null,
+): string | null {
+  const match = importMap
+    ? matchImportMap(
+      importMap,
+      importerPath,
+      importPath,
+      importMap.configPath
+        ? dirname(importMap.configPath)
+        : dirname(importerPath),
+    )
+    : null;
+  const registry = parseRegistrySpecifier(match?.address ?? importPath);
+  return registry ? `${registry.registry}:${registry.name}` : null;
+}
 
+/**
+ * Explain how a specifier imported by a file resolves, tracing every step
+ * @param importerPath Path of the file that contains the import
+ * @param specifier The specifier to resolve
+ * @param options Conditions and configuration file, as for finding importers
+ * @returns The steps of the resolution and its result
+ * @throws {Error} If the configuration file given cannot be loaded
+ */
+export async function explainImportPath(
+  importerPath: string,
+  specifier: string,
+  options: FindDirectoryImportersOptions = {},
+): Promise<ExplainResult> {
+  const importer = resolve(importerPath);
+  const configOverride = await loadConfigOverride(options.config);
+  const { importMap, tsConfig, resolverConfig } = await findResolutionConfig(
+    importer,
+    configOverride,
+  );
+
+  // The import statement decides between "import" and "require" conditions
+  const steps: ResolutionStep[] = [];
+  let statement: ImportStatement | undefined;
   try {
-    importMap = await loadImportMap(rootPath);
-  } catch (error) {
-    console.warn(
-      "Warning: Could not load import map:",
-      (error as Error).message,
+    statement = (await parseImports(importer)).find((imp) =>
+      imp.module === specifier
     );
+  } catch {
+    // The importer does not exist or cannot be parsed
   }
+  steps.push({
+    message: statement
+      ? `imported on line ${statement.lineNumber} ` +
+        `(${statement.type}, ${statement.importKind})`
+      : "not imported by the file, resolving as an ES import",
+  });
+
+  const resolvedPath = resolveImportPath(
+    importer,
+    specifier,
+    importMap,
+    tsConfig,
+    {
+      ...(statement
+        ? resolveOptionsFor(statement, options, resolverConfig)
+        : { conditions: options.conditions, resolverConfig }),
+      trace: steps,
+    },
+  );
 
-  try {
-    tsConfig = await loadTsConfig(rootPath);
-  } catch (error) {
-    console.warn("Warning: Could not load tsconfig:", (error as Error).message);
+  return {
+    importer,
+    specifier,
+    importMap: importMap?.configPath,
+    tsConfig: tsConfig?.configPath,
+    resolverConfig: resolverConfig?.configPath,
+    steps,
+    resolvedPath,
+    exists: resolvedPath !== null && existsSync(resolvedPath),
+  };
+}
+
+/**
+ * Expand a dynamic import pattern such as `./locale/*.ts` to the files it
+ * may import
+ * @param importerPath Path of the file that contains the import
+ * @param pattern Glob pattern built from the dynamic import specifier
+ * @param candidates Absolute paths of the files the pattern may match
+ * @param importMap Optional import map to use for resolution
+ * @param tsConfig Optional tsconfig to use for resolution
+ * @param options Options for resolving bare specifiers through node_modules
+ * @returns The candidates matching the pattern
+ */
+export function expandImportPattern(
+  importerPath: string,
+  pattern: string,
+  candidates: string[],
+  importMap?: ImportMap | null,
+  tsConfig?: TsConfig | null,
+  options: ResolveOptions = {},
+): string[] {
+  // Resolve the static directory part, then match the rest as a glob
+  const wildcard = pattern.indexOf("*");
+  const separator = pattern.lastIndexOf("/", wildcard);
+  if (wildcard === -1 || separator === -1) {
+    return [];
+  }
+
+  const directory = resolveImportPath(
+    importerPath,
+    pattern.slice(0, separator + 1),
+    importMap,
+    tsConfig,
+    options,
+  );
+  if (!directory) {
+    return [];
+  }
+
+  const regex = globToRegExp(join(directory, pattern.slice(separator + 1)), {
+    extended: true,
+    globstar: true,
+  });
+  return candidates.filter((candidate) => regex.test(candidate));
+}
+
+/**
+ * A file, directory or remote module whose importers are searched for
+ */
+export interface ImportTarget {
+  /**
+   * Real path of the target file or directory, or the URL of a remote module
+   * or URL prefix
+   */
+  path: string;
+  /** Whether the target is a directory */
+  isDirectory: boolean;
+  /** Whether the target is a remote module URL or URL prefix */
+  isUrl: boolean;
+}
+
+/**
+ * Normalize a target given on the command line or to `findImporters`
+ * @param targetFilePath The file, directory or URL to search for imports of;
+ * files may be given without their extension
+ * @param configOverride Configuration that replaces discovery, if any
+ * @returns The normalized target
+ * @throws {Deno.errors.NotFound} If the target file doesn't exist
+ */
+export async function resolveTarget(
+  targetFilePath: string,
+  configOverride?: Partial<ResolutionConfig>,
+): Promise<ImportTarget> {
+  // URL targets match a remote module or every module under a URL prefix
+  if (isRemoteUrl(targetFilePath)) {
+    return {
+      path: new URL(targetFilePath).href,
+      isDirectory: false,
+      isUrl: true,
+    };
   }
 
   // Normalize target path for comparison
@@ -464,13 +838,17 @@ export async function findImporters(
   if (!isTargetDirectory) {
     // Try to resolve target file path if it doesn't exist as-is
     if (!existsSync(normalizedTargetPath)) {
-      const extensions = [".ts", ".tsx", ".js", ".jsx", ".mjs", ".cjs"];
       // Check if the path already has an extension
       const hasExtension = /\.[^/.]+$/.test(normalizedTargetPath);
       const base = hasExtension ? normalizedTargetPath.replace(/\.[^/.]+$/, "") : normalizedTargetPath;
 
+      // Extensions of the resolver configuration nearest to the target
+      const { resolverConfig } = await findResolutionConfig(
+        normalizedTargetPath,
+        configOverride,
+      );
       let found = false;
-      for (const ext of extensions) {
+      for (const ext of resolverConfig?.extensions ?? RESOLVE_EXTENSIONS) {
         const withExt = base + ext;
         if (existsSync(withExt)) {
           normalizedTargetPath = withExt;
@@ -486,20 +864,166 @@ export async function findImporters(
     }
   }
 
+  // Files are identified by their real path, so that imports through
+  // symbolic links (pnpm, linked packages) reach the target
+  return {
+    path: canonicalPath(normalizedTargetPath),
+    isDirectory: isTargetDirectory,
+    isUrl: false,
+  };
+}
+
+/**
+ * Whether a file is the target or, for a directory target, inside it
+ * @param target The normalized target
+ * @param filePath Path of the file, or URL of a remote module
+ * @returns Whether the file is or belongs to the target
+ */
+export function matchesTarget(target: ImportTarget, filePath: string): boolean {
+  if (target.isUrl) {
+    return isRemoteUrl(filePath) && matchesUrlTarget(filePath, target.path);
+  }
+  // Remote modules are never local files
+  if (isRemoteUrl(filePath)) {
+    return false;
+  }
+  return target.isDirectory
+    ? isWithinDirectory(canonicalPath(filePath), target.path)
+    : canonicalPath(filePath) === target.path;
+}
+
+/**
+ * Parse a file and resolve every import it contains
+ * @param filePath Path of the importing file
+ * @param patternCandidates Absolute paths of the files dynamic import
+ * patterns may expand to
+ * @param options Options controlling which imports are resolved and how
+ * @param configOverride Configuration that replaces discovery, if any
+ * @returns Every import with its resolution; dynamic import patterns give an
+ * import for each file they may import, and unresolved imports are left out
+ * @throws {Deno.errors.NotFound} If the file doesn't exist
+ * @throws {Error} If there's an error reading the file
+ */
+export async function resolveFileImports(
+  filePath: string,
+  patternCandidates: string[],
+  options: FindDirectoryImportersOptions = {},
+  configOverride?: Partial<ResolutionConfig>,
+): Promise<ImportEdge[]> {
+  const imports = await parseImports(filePath);
+  const { importMap, tsConfig, resolverConfig } = await findResolutionConfig(
+    filePath,
+    configOverride,
+  );
+
+  const edges: ImportEdge[] = [];
+  for (const imp of imports) {
+    // Skip dynamic imports unless requested, and mocks if excluded
+    if (
+      (imp.isDynamic && !options.includeDynamic) ||
+      (imp.edge === "mock" && options.excludeMocks)
+    ) {
+      continue;
+    }
+
+    // Resolve the import path; patterns expand to every matching file
+    const resolvedPaths = imp.isPattern
+      ? expandImportPattern(
+        filePath,
+        imp.module,
+        patternCandidates,
+        importMap,
+        tsConfig,
+        resolveOptionsFor(imp, options, resolverConfig),
+      )
+      : [
+        resolveImportPath(
+          filePath,
+          imp.module,
+          importMap,
+          tsConfig,
+          resolveOptionsFor(imp, options, resolverConfig),
+        ),
+      ];
+
+    for (const resolvedPath of resolvedPaths) {
+      if (!resolvedPath) {
+        continue;
+      }
+      edges.push({
+        statement: imp,
+        resolved: {
+          sourceFile: filePath,
+          importPath: imp.module,
+          resolvedPath: resolvedPath,
+          realPath: options.realPaths && !isRemoteUrl(resolvedPath)
+            ? canonicalPath(resolvedPath)
+            : undefined,
+          lineNumber: imp.lineNumber,
+          column: imp.column,
+          edge: imp.edge,
+          symbols: importedSymbols(imp),
+          importKind: imp.importKind,
+          isDynamic: imp.isDynamic,
+          possible: imp.isPattern || undefined,
+        },
+      });
+    }
+  }
+  return edges;
+}
+
+/**
+ * Find all files that import a specific target file or directory
+ * @param targetFilePath The file or directory to search for imports of
+ * @param files List of files to search through
+ * @param _rootPath Root directory of the scan (configuration is discovered
+ * for each file)
+ * @param options Options controlling which importers are reported
+ * @returns Array of files that import the target file or directory
+ * @throws {Deno.errors.NotFound} If the target file doesn't exist
+ * @throws {Error} If there's an error processing any of the files
+ */
+export async function findImporters(
+  targetFilePath: string,
+  files: string[],
+  _rootPath: string,
+  options: FindImportersOptions = {},
+): Promise<ResolvedImport[]> {
+  const importers: ImportEdge[] = [];
+  // Every resolved import, kept only when barrels need to be followed
+  const allImports: ImportEdge[] = [];
+
+  // Configuration given explicitly replaces discovery
+  const configOverride = await loadConfigOverride(options.config);
+
+  const target = await resolveTarget(targetFilePath, configOverride);
+
+  // URL targets may be reached through the remote modules cached by Deno
+  const remoteImports = new Map<string, Promise<string[]>>();
+  const denoDir = target.isUrl && options.followRemote
+    ? options.denoDir ?? defaultDenoDir()
+    : null;
+  if (target.isUrl && options.followRemote && !denoDir) {
+    console.warn(
+      "Warning: Cannot find the Deno cache directory, set DENO_DIR or " +
+        "pass denoDir",
+    );
+  }
+
+  // Files a dynamic import pattern may expand to
+  const patternCandidates = target.isDirectory
+    ? files.map((file) => resolve(file)).filter((file) =>
+      matchesTarget(target, file)
+    )
+    : [target.path];
+
   // Process each file
   for (const filePath of files) {
     try {
-      // Skip the target file or directory
-      if (isTargetDirectory) {
-        // For directory targets, skip if the file is within the target directory
-        if (resolve(filePath).startsWith(normalizedTargetPath)) {
-          continue;
-        }
-      } else {
-        // For file targets, skip if it's the exact same file
-        if (resolve(filePath) === normalizedTargetPath) {
-          continue;
-        }
+      // Skip the target file, or the files within the target directory
+      if (!target.isUrl && matchesTarget(target, filePath)) {
+        continue;
       }
 
       // Skip if file doesn't exist
@@ -508,45 +1032,41 @@ export async function findImporters(
         continue;
       }
 
-      const imports = await parseImports(filePath);
+      // Check if each import resolves to our target file or directory
+      for (
+        const edge of await resolveFileImports(
+          filePath,
+          patternCandidates,
+          options,
+          configOverride,
+        )
+      ) {
+        const { resolvedPath } = edge.resolved;
 
-      // Check each import statement
-      for (const imp of imports) {
-        // Skip dynamic imports
-        if (imp.isDynamic) {
-          continue;
+        if (options.followBarrels) {
+          allImports.push(edge);
         }
 
-        // Resolve the import path
-        const resolvedPath = resolveImportPath(
-          filePath,
-          imp.module,
-          importMap,
-          tsConfig,
-        );
-
-        // Check if it resolves to our target file or directory
-        if (resolvedPath) {
-          if (isTargetDirectory) {
-            // For directory targets, check if resolved path is within the target directory
-            if (resolve(resolvedPath).startsWith(normalizedTargetPath)) {
-              importers.push({
-                sourceFile: filePath,
-                importPath: imp.module,
-                resolvedPath: resolvedPath,
-                lineNumber: imp.lineNumber,
-              });
-            }
-          } else {
-            // For file targets, check for exact match
-            if (resolve(resolvedPath) === normalizedTargetPath) {
-              importers.push({
-                sourceFile: filePath,
-                importPath: imp.module,
-                resolvedPath: resolvedPath,
-                lineNumber: imp.lineNumber,
-              });
-            }
+        if (matchesTarget(target, resolvedPath)) {
+          importers.push(edge);
+        } else if (denoDir && isRemoteUrl(resolvedPath)) {
+          // For URL targets, optionally follow the remote modules the import
+          // reaches
+          const chain = await findRemoteChain(
+            resolvedPath,
+            (url) => matchesUrlTarget(url, target.path),
+            denoDir,
+            remoteImports,
+          );
+          if (chain) {
+            importers.push({
+              ...edge,
+              resolved: {
+                ...edge.resolved,
+                resolvedPath: chain[chain.length - 1],
+                via: [resolvedPath, ...chain.slice(0, -1)],
+              },
+            });
           }
         }
       }
@@ -559,14 +1079,151 @@ export async function findImporters(
     }
   }
 
+  // Keep only importers binding the requested export
+  const { symbol } = options;
+  const matching = symbol === undefined
+    ? importers
+    : importers.filter((imp) => bindsSymbol(imp.statement, symbol));
+
+  if (options.followBarrels) {
+    matching.push(...followBarrels(matching, allImports, symbol));
+  }
+
+  return matching
+    .map((imp) => imp.resolved)
+    .filter((imp) => matchesImportKind(imp.importKind, options));
+}
+
+/**
+ * Whether an import passes the runtime/type-only filters
+ * @param importKind Classification of the import
+ * @param options Filter options
+ * @returns True if the import should be reported
+ */
+export function matchesImportKind(
+  importKind: ImportKind,
+  options: FindDirectoryImportersOptions,
+): boolean {
+  if (options.runtimeOnly && importKind === "type-only") {
+    return false;
+  }
+  if (options.typesOnly && importKind !== "type-only") {
+    return false;
+  }
+  return true;
+}
+
+/**
+ * Options for resolving an import statement
+ * @param imp The import statement
+ * @param options Options of the importer search
+ * @param resolverConfig Resolver configuration of the importing file
+ */
+export function resolveOptionsFor(
+  imp: ImportStatement,
+  options: FindDirectoryImportersOptions,
+  resolverConfig: ResolverConfig | null,
+): ResolveOptions {
+  return {
+    conditions: options.conditions,
+    resolverConfig,
+    require: imp.type === "commonjs",
+    typeOnly: imp.importKind === "type-only",
+  };
+}
+
+/**
+ * An import statement together with its resolution
+ */
+export interface ImportEdge {
+  statement: ImportStatement;
+  resolved: ResolvedImport;
+}
+
+/**
+ * Find the files that reach the target through re-exporting barrel files
+ * @param directImporters Importers that import the target directly
+ * @param allImports Every resolved import of the scanned files
+ * @param symbol Optional export of the target the importers must bind
+ * @returns Importers of the barrels, with the chain of barrels they go through
+ */
+function followBarrels(
+  directImporters: ImportEdge[],
+  allImports: ImportEdge[],
+  symbol?: string,
+): ImportEdge[] {
+  const importers: ImportEdge[] = [];
+  const visited = new Set<string>();
+  const queue = directImporters
+    .filter((imp) => imp.resolved.edge === "reexport")
+    .map((imp) => ({
+      barrel: imp.resolved.sourceFile,
+      via: [imp.resolved.sourceFile],
+      symbol: symbol === undefined
+        ? undefined
+        : reexportedName(imp.statement, symbol),
+    }));
+
+  while (queue.length > 0) {
+    const { barrel, via, symbol } = queue.shift()!;
+    const barrelPath = canonicalPath(barrel);
+    if (visited.has(barrelPath)) {
+      continue;
+    }
+    visited.add(barrelPath);
+
+    for (const imp of allImports) {
+      if (canonicalPath(imp.resolved.resolvedPath) !== barrelPath) {
+        continue;
+      }
+      if (symbol !== undefined && !bindsSymbol(imp.statement, symbol)) {
+        continue;
+      }
+
+      importers.push({ ...imp, resolved: { ...imp.resolved, via } });
+
+      // A barrel re-exporting another barrel extends the chain
+      if (imp.resolved.edge === "reexport") {
+        queue.push({
+          barrel: imp.resolved.sourceFile,
+          via: [imp.resolved.sourceFile, ...via],
+          symbol: symbol === undefined
+            ? undefined
+            : reexportedName(imp.statement, symbol),
+        });
+      }
+    }
+  }
+
   return importers;
 }
 
+/**
+ * Name under which a re-export exposes an export of the re-exported module,
+ * e.g. "b" for `export { a as b } from "./x"`
+ * @param reexport The re-export statement
+ * @param symbol Name of the export in the re-exported module
+ * @returns The name consumers of the re-exporting file import it by
+ */
+function reexportedName(reexport: ImportStatement, symbol: string): string {
+  for (const binding of reexport.bindings) {
+    if (binding.kind !== "namespace" && binding.imported === symbol) {
+      return binding.local;
+    }
+    // export * as ns from "./x"
+    if (binding.kind === "namespace" && binding.local !== "*") {
+      return binding.local;
+    }
+  }
+  return symbol;
+}
+
 /**
  * Find all files that import files from a specific target directory and group by imported files
  * @param targetDirectoryPath The directory to search for imports of
  * @param files List of files to search through
  * @param rootPath Root directory for resolving paths
+ * @param options Options controlling which imports are reported
  * @returns DirectoryImporterResult with grouped data
  * @throws {Deno.errors.NotFound} If the target directory doesn't exist
  * @throws {Error} If there's an error processing any of the files
@@ -575,28 +1232,13 @@ export async function findDirectoryImporters(
   targetDirectoryPath: string,
   files: string[],
   rootPath: string,
+  options: FindDirectoryImportersOptions = {},
 ): Promise<DirectoryImporterResult> {
-  // Load configuration files
-  let importMap: ImportMap | null = null;
-  let tsConfig: TsConfig | null = null;
+  // Configuration given explicitly replaces discovery
+  const configOverride = await loadConfigOverride(options.config);
 
-  try {
-    importMap = await loadImportMap(rootPath);
-  } catch (error) {
-    console.warn(
-      "Warning: Could not load import map:",
-      (error as Error).message,
-    );
-  }
-
-  try {
-    tsConfig = await loadTsConfig(rootPath);
-  } catch (error) {
-    console.warn("Warning: Could not load tsconfig:", (error as Error).message);
-  }
-
-  // Normalize target path for comparison
-  const normalizedTargetPath = resolve(targetDirectoryPath);
+  // Normalize target path for comparison, through symbolic links
+  const normalizedTargetPath = canonicalPath(targetDirectoryPath);
 
   // Check if target is a directory
   try {
@@ -614,11 +1256,16 @@ export async function findDirectoryImporters(
   // Map to store imported files and their importers
   const importGroups = new Map<string, Importer[]>();
 
+  // Files a dynamic import pattern may expand to
+  const patternCandidates = files.map((file) => resolve(file)).filter((file) =>
+    isWithinDirectory(canonicalPath(file), normalizedTargetPath)
+  );
+
   // Process each file
   for (const filePath of files) {
     try {
       // Skip if the file is within the target directory
-      if (resolve(filePath).startsWith(normalizedTargetPath)) {
+      if (isWithinDirectory(canonicalPath(filePath), normalizedTargetPath)) {
         continue;
       }
 
@@ -628,40 +1275,47 @@ export async function findDirectoryImporters(
         continue;
       }
 
-      const imports = await parseImports(filePath);
-
-      // Check each import statement
-      for (const imp of imports) {
-        // Skip dynamic imports
-        if (imp.isDynamic) {
+      // Check if each import, unless filtered out by kind, resolves to our
+      // target directory
+      for (
+        const { resolved } of await resolveFileImports(
+          filePath,
+          patternCandidates,
+          options,
+          configOverride,
+        )
+      ) {
+        const realPath = isRemoteUrl(resolved.resolvedPath)
+          ? null
+          : canonicalPath(resolved.resolvedPath);
+        if (
+          !matchesImportKind(resolved.importKind, options) || !realPath ||
+          !isWithinDirectory(realPath, normalizedTargetPath)
+        ) {
           continue;
         }
 
-        // Resolve the import path
-        const resolvedPath = resolveImportPath(
-          filePath,
-          imp.module,
-          importMap,
-          tsConfig,
-        );
+        // Get the relative path of the imported file within the target directory
+        const relativeImportedPath = relative(normalizedTargetPath, realPath);
 
-        // Check if it resolves to our target directory
-        if (resolvedPath && resolve(resolvedPath).startsWith(normalizedTargetPath)) {
-          // Get the relative path of the imported file within the target directory
-          const relativeImportedPath = relative(normalizedTargetPath, resolvedPath);
-          
-          // Add to the appropriate group
-          if (!importGroups.has(relativeImportedPath)) {
-            importGroups.set(relativeImportedPath, []);
-          }
-          
-          const importers = importGroups.get(relativeImportedPath)!;
-          importers.push({
-            sourceFile: filePath,
-            importPath: imp.module,
-            lineNumber: imp.lineNumber,
-          });
+        // Add to the appropriate group
+        if (!importGroups.has(relativeImportedPath)) {
+          importGroups.set(relativeImportedPath, []);
         }
+
+        const importers = importGroups.get(relativeImportedPath)!;
+        importers.push({
+          sourceFile: filePath,
+          importPath: resolved.importPath,
+          lineNumber: resolved.lineNumber,
+          column: resolved.column,
+          edge: resolved.edge,
+          importKind: resolved.importKind,
+          isDynamic: resolved.isDynamic,
+          possible: resolved.possible,
+          resolvedPath: options.realPaths ? resolved.resolvedPath : undefined,
+          realPath: resolved.realPath,
+        });
       }
     } catch (error) {
       if (error instanceof Deno.errors.NotFound) {
@@ -0,0 +1,193 @@
+/**
+ * Resolver configuration for whoimportme
+ *
+ * The `resolve` section of `.whoimportme.json` declares what a bundler such
+ * as Vite or webpack adds to module resolution: aliases like `~`, `@` or
+ * `$lib`, the extensions and main files tried for extensionless imports and
+ * directories, and the package.json conditions to match.
+ *
+ * ```json
+ * {
+ *   "resolve": {
+ *     "alias": { "@": "./src", "$lib": "./src/lib", "react$": "preact/compat" },
+ *     "extensions": [".web.ts", "..."],
+ *     "mainFiles": ["index", "main"],
+ *     "conditions": ["browser"]
+ *   }
+ * }
+ * ```
+ */
+
+import { resolve } from "https://deno.land/std@0.224.0/path/mod.ts";
+import { COMPONENT_EXTENSIONS, MODULE_EXTENSIONS } from "./extractors.ts";
+import { parseJsonc } from "./jsonc.ts";
+
+/**
+ * Name of the whoimportme configuration file
+ */
+export const RESOLVER_CONFIG_FILE = ".whoimportme.json";
+
+/**
+ * File extensions tried, in order, when resolving an import without one
+ */
+export const RESOLVE_EXTENSIONS = [
+  ...MODULE_EXTENSIONS,
+  ...COMPONENT_EXTENSIONS,
+];
+
+/**
+ * Main files tried, in order, when an import names a directory
+ */
+export const RESOLVE_MAIN_FILES = ["index"];
+
+/**
+ * The `resolve` section of a whoimportme configuration file
+ *
+ * Relative alias targets are relative to the directory of the file the
+ * configuration was loaded from (`configPath`).
+ */
+export interface ResolverConfig {
+  /** Path of the file the configuration was loaded from */
+  configPath?: string;
+  /**
+   * Aliases replacing a specifier or its first segments, by alias; a key
+   * ending with "$" only matches the specifier itself, and an array lists
+   * targets tried in order
+   */
+  alias?: Record<string, string | string[]>;
+  /**
+   * Extensions tried for extensionless imports, replacing the defaults; "..."
+   * stands for the default extensions
+   */
+  extensions?: string[];
+  /** Names of the files a directory import resolves to (default: index) */
+  mainFiles?: string[];
+  /**
+   * Package.json `exports` and `imports` conditions to match besides "import"
+   * or "require" and "default", unless conditions are given explicitly
+   */
+  conditions?: string[];
+}
+
+/**
+ * Alias a specifier matched
+ */
+export interface AliasMatch {
+  /** The alias, e.g. "@" or "react$" */
+  key: string;
+  /**
+   * The specifier with the alias replaced by each target in order; absolute
+   * paths for path targets, specifiers for others such as "preact/compat"
+   */
+  candidates: string[];
+}
+
+/**
+ * Read the resolver configuration of a whoimportme configuration file
+ * @param path Path of the configuration file
+ * @returns The `resolve` section, or null if the file has none
+ * @throws {Error} If the file cannot be read or parsed, or the section is
+ * malformed
+ */
+export async function readResolverConfig(
+  path: string,
+): Promise<ResolverConfig | null> {
+  const configPath = resolve(path);
+  const config = parseJsonc(await Deno.readTextFile(configPath)) as {
+    resolve?: unknown;
+  } | null;
+  const section = config?.resolve;
+  if (section === undefined) {
+    return null;
+  }
+  if (!isRecord(section)) {
+    throw new Error(`"resolve" must be an object`);
+  }
+
+  const { alias, extensions, mainFiles, conditions } = section;
+  if (
+    alias !== undefined &&
+    !(isRecord(alias) &&
+      Object.values(alias).every((target) =>
+        typeof target === "string" || isStringArray(target)
+      ))
+  ) {
+    throw new Error(
+      `"resolve.alias" must map aliases to a path or an array of paths`,
+    );
+  }
+  for (
+    const [name, value] of Object.entries({ extensions, mainFiles, conditions })
+  ) {
+    if (value !== undefined && !isStringArray(value)) {
+      throw new Error(`"resolve.${name}" must be an array of strings`);
+    }
+  }
+
+  return {
+    configPath,
+    alias: alias as ResolverConfig["alias"],
+    extensions: (extensions as string[] | undefined)?.flatMap((extension) =>
+      extension === "..." ? RESOLVE_EXTENSIONS : [extension]
+    ),
+    mainFiles: mainFiles as string[] | undefined,
+    conditions: conditions as string[] | undefined,
+  };
+}
+
+/**
+ * Find the alias of a resolver configuration that applies to a specifier
+ *
+ * Aliases are tried in the order they are declared, as bundlers do. An alias
+ * matches the specifier itself or, unless it ends with "$", a specifier
+ * starting with the alias followed by "/".
+ * @param config The resolver configuration
+ * @param specifier The specifier to match
+ * @param baseDirectory Directory relative alias targets start from
+ * @returns The matching alias and the specifiers it maps to, or null if no
+ * alias matches
+ */
+export function matchAlias(
+  config: ResolverConfig,
+  specifier: string,
+  baseDirectory: string,
+): AliasMatch | null {
+  for (const [key, target] of Object.entries(config.alias ?? {})) {
+    const exact = key.endsWith("$");
+    const alias = exact ? key.slice(0, -1) : key;
+    const rest = specifier === alias
+      ? ""
+      : !exact && specifier.startsWith(alias.replace(/\/$/, "") + "/")
+      ? specifier.slice(alias.replace(/\/$/, "").length)
+      : null;
+    if (rest === null) {
+      continue;
+    }
+    const targets = typeof target === "string" ? [target] : target;
+    return {
+      key,
+      candidates: targets.map((target) => {
+        const replaced = target.replace(/\/$/, "") + rest;
+        return /^\.\.?(\/|$)/.test(target) || target.startsWith("/")
+          ? resolve(baseDirectory, replaced)
+          : replaced;
+      }),
+    };
+  }
+  return null;
+}
+
+/**
+ * Whether a value is a plain object
+ */
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Whether a value is an array of strings
+ */
+function isStringArray(value: unknown): value is string[] {
+  return Array.isArray(value) &&
+    value.every((item) => typeof item === "string");
+}
@@ -5,6 +5,7 @@ import {
   extname,
   relative,
 } from "https://deno.land/std@0.224.0/path/mod.ts";
+import { SOURCE_EXTENSIONS } from "./extractors.ts";
 
 /**
  * Options for the file scanner
@@ -31,7 +32,7 @@ const DEFAULT_OPTIONS: Required<
     "extensions" | "ignore" | "followSymlinks" | "concurrency"
   >
 > = {
-  extensions: [".js", ".jsx", ".ts", ".tsx", ".mjs", ".cjs"],
+  extensions: SOURCE_EXTENSIONS,
   ignore: ["node_modules", "dist"],
   followSymlinks: false,
   concurrency: 4,
@@ -0,0 +1,275 @@
+/**
+ * tsconfig support for whoimportme
+ *
+ * Loads tsconfig files the way `tsc` does (JSONC, `extends` chains) and maps
+ * module specifiers through `paths`, `baseUrl` and `rootDirs`.
+ */
+
+import {
+  dirname,
+  join,
+  relative,
+  resolve,
+  SEPARATOR,
+} from "https://deno.land/std@0.224.0/path/mod.ts";
+import { existsSync } from "https://deno.land/std@0.224.0/fs/exists.ts";
+import { parseJsonc } from "./jsonc.ts";
+import {
+  findPackageDirectory,
+  loadPackageJson,
+  parsePackageSpecifier,
+} from "./packages.ts";
+
+/**
+ * Interface for TypeScript configuration
+ *
+ * Relative paths in `compilerOptions` are relative to the directory of the
+ * tsconfig file (`configPath`), including those inherited through `extends`.
+ */
+export interface TsConfig {
+  /** Path of the tsconfig file, set when the config is loaded from disk */
+  configPath?: string;
+  /** Configurations this one extends, relative paths or package names */
+  extends?: string | string[];
+  /** Compiler options */
+  compilerOptions?: {
+    /** Base URL for non-relative module names */
+    baseUrl?: string;
+    /** Path mapping for module names */
+    paths?: Record<string, string[]>;
+    /**
+     * Directory `paths` are relative to when `baseUrl` is not set, for paths
+     * inherited from another config
+     */
+    pathsBasePath?: string;
+    /** Directories whose contents are merged into one virtual directory */
+    rootDirs?: string[];
+  };
+}
+
+type CompilerOptions = NonNullable<TsConfig["compilerOptions"]>;
+
+/**
+ * Read a tsconfig file and the configs it extends, merging their compiler
+ * options like `tsc` does
+ * @param path Path of the tsconfig file
+ * @param chain Configs already being read, to detect circular `extends`
+ * @returns The merged configuration
+ * @throws {Error} If the file cannot be read or parsed, or `extends` is
+ * circular
+ */
+export async function readTsConfig(
+  path: string,
+  chain: Set<string> = new Set(),
+): Promise<TsConfig> {
+  const configPath = resolve(path);
+  if (chain.has(configPath)) {
+    throw new Error(`Circular extends in ${configPath}`);
+  }
+
+  const config = parseJsonc(await Deno.readTextFile(configPath)) as TsConfig;
+  const directory = dirname(configPath);
+  const compilerOptions: CompilerOptions = {};
+
+  // Later bases override earlier ones, and the config overrides its bases
+  const bases = config.extends === undefined
+    ? []
+    : Array.isArray(config.extends)
+    ? config.extends
+    : [config.extends];
+  for (const base of bases) {
+    const basePath = resolveExtendsPath(base, directory);
+    if (!basePath) {
+      console.warn(
+        `Warning: Cannot find config '${base}' extended by ${configPath}`,
+      );
+      continue;
+    }
+    const baseConfig = await readTsConfig(
+      basePath,
+      new Set(chain).add(configPath),
+    );
+    Object.assign(
+      compilerOptions,
+      rebaseOptions(
+        baseConfig.compilerOptions ?? {},
+        dirname(basePath),
+        directory,
+      ),
+    );
+  }
+
+  const own = config.compilerOptions ?? {};
+  if (own.paths) {
+    delete compilerOptions.pathsBasePath;
+  }
+  Object.assign(compilerOptions, own);
+
+  return { ...config, configPath, compilerOptions };
+}
+
+/**
+ * List the paths a module specifier maps to through `compilerOptions.paths`,
+ * in the order `tsc` tries them
+ * @param tsConfig The configuration
+ * @param specifier The module specifier
+ * @param configDirectory Directory relative paths of the config start from
+ * @returns Absolute paths to try, or an empty array if no pattern matches
+ */
+export function tsConfigPathCandidates(
+  tsConfig: TsConfig,
+  specifier: string,
+  configDirectory: string,
+): string[] {
+  return matchTsConfigPaths(tsConfig, specifier, configDirectory)
+    ?.candidates ?? [];
+}
+
+/**
+ * Find the `compilerOptions.paths` pattern a module specifier matches
+ *
+ * An exact pattern wins, then the pattern with the longest prefix before `*`.
+ * @param tsConfig The configuration
+ * @param specifier The module specifier
+ * @param configDirectory Directory relative paths of the config start from
+ * @returns The pattern and the absolute paths its substitutions map the
+ * specifier to, or null if no pattern matches
+ */
+export function matchTsConfigPaths(
+  tsConfig: TsConfig,
+  specifier: string,
+  configDirectory: string,
+): { pattern: string; candidates: string[] } | null {
+  const options = tsConfig.compilerOptions;
+  if (!options?.paths) {
+    return null;
+  }
+  const base = resolve(
+    configDirectory,
+    options.baseUrl ?? options.pathsBasePath ?? ".",
+  );
+
+  let best: { pattern: string; prefix: string; match: string } | null = null;
+  if (Object.hasOwn(options.paths, specifier) && !specifier.includes("*")) {
+    best = { pattern: specifier, prefix: specifier, match: "" };
+  } else {
+    for (const pattern of Object.keys(options.paths)) {
+      const star = pattern.indexOf("*");
+      if (star === -1) {
+        continue;
+      }
+      const prefix = pattern.slice(0, star);
+      const suffix = pattern.slice(star + 1);
+      if (
+        (!best || prefix.length > best.prefix.length) &&
+        specifier.length >= prefix.length + suffix.length &&
+        specifier.startsWith(prefix) && specifier.endsWith(suffix)
+      ) {
+        best = {
+          pattern,
+          prefix,
+          match: specifier.slice(
+            prefix.length,
+            specifier.length - suffix.length,
+          ),
+        };
+      }
+    }
+  }
+
+  if (!best) {
+    return null;
+  }
+  const { pattern, match } = best;
+  return {
+    pattern,
+    candidates: options.paths[pattern].map((substitution) =>
+      resolve(base, substitution.replace("*", match))
+    ),
+  };
+}
+
+/**
+ * List the paths a relative import may refer to through `rootDirs`: the same
+ * path relative to each of the other root directories
+ * @param tsConfig The configuration
+ * @param path Absolute path the import resolves to
+ * @param configDirectory Directory relative paths of the config start from
+ * @returns Absolute paths to try, or an empty array if the path is not
+ * inside one of the root directories
+ */
+export function rootDirsCandidates(
+  tsConfig: TsConfig,
+  path: string,
+  configDirectory: string,
+): string[] {
+  const rootDirs = (tsConfig.compilerOptions?.rootDirs ?? []).map((dir) =>
+    resolve(configDirectory, dir)
+  );
+  const containing = rootDirs
+    .filter((dir) => path === dir || path.startsWith(dir + SEPARATOR))
+    .sort((a, b) => b.length - a.length)[0];
+  if (containing === undefined) {
+    return [];
+  }
+  const suffix = relative(containing, path);
+  return rootDirs
+    .filter((dir) => dir !== containing)
+    .map((dir) => join(dir, suffix));
+}
+
+/**
+ * Resolve the value of `extends` to the path of a config file
+ * @param value A relative or absolute path, or a package specifier such as
+ * "@tsconfig/node20/tsconfig.json"
+ * @param directory Directory of the extending config
+ * @returns Path of the config file, or null if it does not exist
+ */
+function resolveExtendsPath(value: string, directory: string): string | null {
+  let path: string;
+  const parsed = parsePackageSpecifier(value);
+  if (parsed) {
+    const packageDirectory = findPackageDirectory(parsed.name, directory);
+    if (!packageDirectory) {
+      return null;
+    }
+    path = parsed.subpath === "."
+      ? join(
+        packageDirectory,
+        loadPackageJson(packageDirectory)?.tsconfig ?? "tsconfig.json",
+      )
+      : join(packageDirectory, parsed.subpath);
+  } else {
+    path = resolve(directory, value);
+  }
+
+  if (existsSync(path) && Deno.statSync(path).isFile) {
+    return path;
+  }
+  return !path.endsWith(".json") && existsSync(path + ".json")
+    ? path + ".json"
+    : null;
+}
+
+/**
+ * Make the relative paths in compiler options of a base config relative to
+ * the directory of the extending config
+ */
+function rebaseOptions(
+  options: CompilerOptions,
+  from: string,
+  to: string,
+): CompilerOptions {
+  const rebase = (path: string) => relative(to, resolve(from, path)) || ".";
+  return {
+    ...options,
+    ...(options.baseUrl !== undefined && { baseUrl: rebase(options.baseUrl) }),
+    ...(options.paths !== undefined && {
+      paths: options.paths,
+      pathsBasePath: rebase(options.pathsBasePath ?? "."),
+    }),
+    ...(options.rootDirs !== undefined && {
+      rootDirs: options.rootDirs.map(rebase),
+    }),
+  };
+}
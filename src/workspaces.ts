@@ -0,0 +1,309 @@
+/**
+ * Workspace support for whoimportme
+ *
+ * Reads npm and Yarn workspaces (`package.json` `workspaces`), pnpm
+ * workspaces (`pnpm-workspace.yaml`) and Deno workspaces (`deno.json`
+ * `workspace`), so that imports of a workspace package by name resolve to
+ * its local source files even when it is not linked into `node_modules`.
+ */
+
+import {
+  dirname,
+  join,
+  resolve,
+} from "https://deno.land/std@0.224.0/path/mod.ts";
+import { parseJsonc } from "./jsonc.ts";
+import {
+  loadPackageJson,
+  type PackageJson,
+  parsePackageSpecifier,
+  resolvePackagePath,
+} from "./packages.ts";
+
+/**
+ * A package of a workspace
+ */
+export interface WorkspaceMember {
+  /** Name of the package */
+  name: string;
+  /** Directory of the package */
+  directory: string;
+  /** Manifest the package's `exports` and entry points are read from */
+  manifest: PackageJson;
+}
+
+/**
+ * A workspace and its packages
+ */
+export interface Workspace {
+  /** Directory of the workspace root */
+  root: string;
+  /** Members of the workspace by package name */
+  members: Map<string, WorkspaceMember>;
+}
+
+const workspaceCache = new Map<string, Workspace | null>();
+
+/**
+ * Find the workspace a directory belongs to
+ * @param fromDirectory Directory the lookup starts in
+ * @returns The nearest workspace above the directory, or null if there is none
+ */
+export function findWorkspace(fromDirectory: string): Workspace | null {
+  const directory = resolve(fromDirectory);
+  if (!workspaceCache.has(directory)) {
+    const patterns = readWorkspacePatterns(directory);
+    const parent = dirname(directory);
+    workspaceCache.set(
+      directory,
+      patterns
+        ? { root: directory, members: loadMembers(directory, patterns) }
+        : parent === directory
+        ? null
+        : findWorkspace(parent),
+    );
+  }
+  return workspaceCache.get(directory)!;
+}
+
+/**
+ * Resolve a bare specifier naming a package of the importer's workspace
+ * @param importerPath Path of the file that contains the import
+ * @param specifier The bare specifier, e.g. "@acme/ui/button"
+ * @param conditions Conditions to match in the package's `exports`
+ * @returns Absolute path the specifier refers to, which may still lack an
+ * extension, or null if the specifier does not name a workspace package
+ */
+export function resolveWorkspaceSpecifier(
+  importerPath: string,
+  specifier: string,
+  conditions: string[],
+): string | null {
+  const parsed = parsePackageSpecifier(specifier);
+  const member = parsed
+    ? findWorkspace(dirname(importerPath))?.members.get(parsed.name)
+    : undefined;
+  if (!parsed || !member) {
+    return null;
+  }
+  return resolvePackagePath(
+    member.directory,
+    member.manifest,
+    parsed.subpath,
+    conditions,
+  );
+}
+
+/**
+ * Read the member patterns of a workspace root
+ * @param directory Directory that may be a workspace root
+ * @returns Glob patterns of the member directories, or null if the directory
+ * is not a workspace root
+ */
+function readWorkspacePatterns(directory: string): string[] | null {
+  // npm and Yarn: an array, or { packages: [...] } for Yarn
+  const workspaces = (loadPackageJson(directory) as {
+    workspaces?: string[] | { packages?: string[] };
+  } | null)?.workspaces;
+  if (Array.isArray(workspaces)) {
+    return workspaces;
+  }
+  if (Array.isArray(workspaces?.packages)) {
+    return workspaces.packages;
+  }
+
+  const pnpmWorkspace = readTextFile(join(directory, "pnpm-workspace.yaml"));
+  if (pnpmWorkspace !== null) {
+    return parsePnpmPackages(pnpmWorkspace);
+  }
+
+  // Deno: an array, or { members: [...] }
+  const workspace = readDenoManifest(directory)?.workspace;
+  if (Array.isArray(workspace)) {
+    return workspace;
+  }
+  if (Array.isArray(workspace?.members)) {
+    return workspace.members;
+  }
+  return null;
+}
+
+/**
+ * Find the members of a workspace
+ * @param root Directory of the workspace root
+ * @param patterns Glob patterns of the member directories; patterns starting
+ * with "!" exclude directories
+ * @returns Members by package name; directories without a name are skipped
+ */
+function loadMembers(
+  root: string,
+  patterns: string[],
+): Map<string, WorkspaceMember> {
+  const excluded = new Set(
+    patterns.filter((pattern) => pattern.startsWith("!"))
+      .flatMap((pattern) => expandPattern(root, pattern.slice(1))),
+  );
+  const members = new Map<string, WorkspaceMember>();
+  for (const pattern of patterns) {
+    if (pattern.startsWith("!")) {
+      continue;
+    }
+    for (const directory of expandPattern(root, pattern)) {
+      const manifest = readManifest(directory);
+      if (!excluded.has(directory) && manifest?.name) {
+        members.set(manifest.name, {
+          name: manifest.name,
+          directory,
+          manifest,
+        });
+      }
+    }
+  }
+  return members;
+}
+
+/**
+ * Read the manifest of a workspace member: its package.json if it names the
+ * package, otherwise its Deno configuration
+ */
+function readManifest(directory: string): PackageJson | null {
+  const packageJson = loadPackageJson(directory);
+  if (packageJson?.name) {
+    return packageJson;
+  }
+  const denoConfig = readDenoManifest(directory);
+  if (denoConfig?.name) {
+    return { name: denoConfig.name, exports: denoConfig.exports };
+  }
+  return null;
+}
+
+/**
+ * Expand a member pattern such as "packages/*" or "apps/**" to the existing
+ * directories it matches
+ */
+function expandPattern(root: string, pattern: string): string[] {
+  const segments = pattern.replace(/^\.\//, "").replace(/\/+$/, "")
+    .split("/").filter((segment) => segment && segment !== ".");
+  let directories = [root];
+  for (const segment of segments) {
+    if (segment === "**") {
+      directories = directories.flatMap((directory) => [
+        directory,
+        ...subdirectories(directory, true),
+      ]);
+    } else if (segment.includes("*")) {
+      const regex = new RegExp(
+        "^" + segment.split("*").map(escapeRegExp).join("[^/]*") + "$",
+      );
+      directories = directories.flatMap((directory) =>
+        subdirectories(directory, false).filter((sub) =>
+          regex.test(sub.slice(directory.length + 1))
+        )
+      );
+    } else {
+      directories = directories.map((directory) => join(directory, segment))
+        .filter(isDirectory);
+    }
+  }
+  return directories;
+}
+
+/**
+ * List the subdirectories of a directory, skipping node_modules and hidden
+ * directories
+ */
+function subdirectories(directory: string, recursive: boolean): string[] {
+  const result: string[] = [];
+  try {
+    for (const entry of Deno.readDirSync(directory)) {
+      if (
+        entry.isDirectory && entry.name !== "node_modules" &&
+        !entry.name.startsWith(".")
+      ) {
+        const path = join(directory, entry.name);
+        result.push(path);
+        if (recursive) {
+          result.push(...subdirectories(path, true));
+        }
+      }
+    }
+  } catch {
+    // Unreadable directory
+  }
+  return result;
+}
+
+/**
+ * Read the `packages` list of pnpm-workspace.yaml
+ */
+function parsePnpmPackages(yaml: string): string[] {
+  const patterns: string[] = [];
+  let inPackages = false;
+  for (const line of yaml.split(/\r?\n/)) {
+    if (/^packages\s*:/.test(line)) {
+      inPackages = true;
+      continue;
+    }
+    if (inPackages && /^[^\s#-]/.test(line)) {
+      break;
+    }
+    const item = inPackages
+      ? line.match(/^\s*-\s*(["']?)(.*?)\1\s*(?:#.*)?$/)
+      : null;
+    if (item?.[2]) {
+      patterns.push(item[2]);
+    }
+  }
+  return patterns;
+}
+
+/**
+ * Read the workspace fields of the deno.json or deno.jsonc of a directory
+ */
+function readDenoManifest(directory: string): {
+  name?: string;
+  exports?: PackageJson["exports"];
+  workspace?: string[] | { members?: string[] };
+} | null {
+  for (const name of ["deno.json", "deno.jsonc"]) {
+    const text = readTextFile(join(directory, name));
+    if (text !== null) {
+      try {
+        return parseJsonc(text) as ReturnType<typeof readDenoManifest>;
+      } catch {
+        return null;
+      }
+    }
+  }
+  return null;
+}
+
+/**
+ * Read a file, or return null if it does not exist
+ */
+function readTextFile(path: string): string | null {
+  try {
+    return Deno.readTextFileSync(path);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Whether a path is an existing directory
+ */
+function isDirectory(path: string): boolean {
+  try {
+    return Deno.statSync(path).isDirectory;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Escape the characters of a string that are special in regular expressions
+ */
+function escapeRegExp(text: string): string {
+  return text.replace(/[.+?^${}()|[\]\\]/g, "\\$&");
+}
@@ -20,15 +20,26 @@ Deno.test("should parse basic arguments correctly", () => {
   assertEquals(result.root, ".");
   assertEquals(result.json, false);
   assertEquals(result.extensions, [
-    ".js",
-    ".jsx",
     ".ts",
     ".tsx",
+    ".js",
+    ".jsx",
     ".mjs",
     ".cjs",
+    ".vue",
+    ".svelte",
+    ".astro",
+    ".mdx",
+    ".css",
+    ".scss",
+    ".sass",
+    ".less",
+    ".html",
+    ".htm",
   ]);
   assertEquals(result.ignore, ["node_modules", "dist"]);
   assertEquals(result.followSymlinks, false);
+  assertEquals(result.followBarrels, false);
   assertEquals(result.concurrency, 4);
   assertEquals(result.version, false);
   assertEquals(result.help, false);
@@ -65,6 +76,190 @@ Deno.test("should parse follow-symlinks flag", () => {
   assertEquals(result.followSymlinks, true);
 });
 
+Deno.test("should parse real-paths flag", () => {
+  const args = ["--real-paths", "src/main.ts", "."];
+  const result = parseArguments(args);
+
+  assertEquals(result.realPaths, true);
+  assertEquals(parseArguments(["src/main.ts", "."]).realPaths, false);
+});
+
+Deno.test("should parse follow-barrels flag", () => {
+  const args = ["--follow-barrels", "src/main.ts", "."];
+  const result = parseArguments(args);
+
+  assertEquals(result.followBarrels, true);
+});
+
+Deno.test("should parse transitive mode and depth", () => {
+  assertEquals(
+    parseArguments(["--transitive", "src/a.ts", "."]).transitive,
+    true,
+  );
+  assertEquals(parseArguments(["src/a.ts", "."]).transitive, false);
+
+  const result = parseArguments(["--depth", "2", "src/a.ts", "."]);
+  assertEquals(result.transitive, true);
+  assertEquals(result.depth, 2);
+});
+
+Deno.test("should parse symbol option", () => {
+  const args = ["--symbol", "formatText", "src/output.ts", "."];
+  const result = parseArguments(args);
+
+  assertEquals(result.symbol, "formatText");
+  assertEquals(result.target, "src/output.ts");
+});
+
+Deno.test("should parse import kind filters", () => {
+  assertEquals(
+    parseArguments(["--runtime-only", "src/main.ts", "."]).runtimeOnly,
+    true,
+  );
+  assertEquals(
+    parseArguments(["--types-only", "src/main.ts", "."]).typesOnly,
+    true,
+  );
+});
+
+Deno.test("should parse include-dynamic flag", () => {
+  const args = ["--include-dynamic", "src/main.ts", "."];
+  const result = parseArguments(args);
+
+  assertEquals(result.includeDynamic, true);
+});
+
+Deno.test("should parse package export conditions", () => {
+  const args = ["--conditions=browser, development", "src/main.ts", "."];
+  const result = parseArguments(args);
+
+  assertEquals(result.conditions, ["browser", "development"]);
+  assertEquals(parseArguments(["src/main.ts", "."]).conditions, undefined);
+});
+
+Deno.test("should parse the explain command", () => {
+  const result = parseArguments(["--json", "explain", "src/app.ts", "@/ui"]);
+
+  assertEquals(result.command, "explain");
+  assertEquals(result.target, "src/app.ts");
+  assertEquals(result.specifier, "@/ui");
+  assertEquals(result.json, true);
+  assertEquals(parseArguments(["src/main.ts", "."]).command, "importers");
+});
+
+Deno.test("should parse the deps command", () => {
+  const result = parseArguments([
+    "deps",
+    "--depth",
+    "3",
+    "--external",
+    "src/app.ts",
+  ]);
+
+  assertEquals(result.command, "deps");
+  assertEquals(result.target, "src/app.ts");
+  assertEquals(result.root, ".");
+  assertEquals(result.transitive, true);
+  assertEquals(result.depth, 3);
+  assertEquals(result.external, true);
+  assertEquals(parseArguments(["deps", "src/app.ts"]).external, false);
+});
+
+Deno.test("should parse the cycles command", () => {
+  const args = [
+    "cycles",
+    "--baseline",
+    "cycles.json",
+    "--fail-on-cycles",
+    "src",
+  ];
+  const result = parseArguments(args);
+
+  assertEquals(result.command, "cycles");
+  assertEquals(result.root, "src");
+  assertEquals(result.baseline, "cycles.json");
+  assertEquals(result.failOnCycles, true);
+  assertEquals(parseArguments(["cycles", "."]).failOnCycles, false);
+});
+
+Deno.test("should parse the orphans command", () => {
+  const result = parseArguments([
+    "orphans",
+    "--entry",
+    "src/main.ts, scripts/*.ts",
+    ".",
+  ]);
+
+  assertEquals(result.command, "orphans");
+  assertEquals(result.root, ".");
+  assertEquals(result.entries, ["src/main.ts", "scripts/*.ts"]);
+  assertEquals(parseArguments(["orphans", "."]).entries, []);
+});
+
+Deno.test("should parse the unused-exports command", () => {
+  const result = parseArguments([
+    "unused-exports",
+    "--entry=src/index.ts",
+    "src",
+  ]);
+
+  assertEquals(result.command, "unused-exports");
+  assertEquals(result.root, "src");
+  assertEquals(result.entries, ["src/index.ts"]);
+});
+
+Deno.test("should parse remote module options", () => {
+  const args = [
+    "--follow-remote",
+    "--deno-dir=/cache/deno",
+    "https://deno.land/std@0.224.0",
+    ".",
+  ];
+  const result = parseArguments(args);
+
+  assertEquals(result.target, "https://deno.land/std@0.224.0");
+  assertEquals(result.followRemote, true);
+  assertEquals(result.denoDir, "/cache/deno");
+  assertEquals(parseArguments(["src/main.ts", "."]).followRemote, false);
+});
+
+Deno.test("should parse config override", () => {
+  const args = ["--config", "packages/app/tsconfig.json", "src/main.ts", "."];
+  const result = parseArguments(args);
+
+  assertEquals(result.config, "packages/app/tsconfig.json");
+  assertEquals(parseArguments(["src/main.ts", "."]).config, undefined);
+});
+
+Deno.test("should parse exclude-mocks flag", () => {
+  const args = ["--exclude-mocks", "src/main.ts", "."];
+  const result = parseArguments(args);
+
+  assertEquals(result.excludeMocks, true);
+  assertEquals(parseArguments(["src/main.ts", "."]).excludeMocks, false);
+});
+
+Deno.test("should reject combining runtime-only and types-only", () => {
+  let exitCode: number | undefined;
+  console.error = () => {};
+  Deno.exit = (code?: number) => {
+    exitCode = code;
+    throw new Error(`Process exited with code ${code}`);
+  };
+
+  try {
+    parseArguments(["--runtime-only", "--types-only", "src/main.ts", "."]);
+  } catch {
+    // Expected to throw due to exit
+  }
+
+  assertEquals(exitCode, 1);
+
+  // Restore originals
+  console.error = originalConsoleError;
+  Deno.exit = originalExit;
+});
+
 Deno.test("should parse max-depth option", () => {
   const args = ["--max-depth=3", "src/main.ts", "."];
   const result = parseArguments(args);
@@ -0,0 +1,88 @@
+import { assertEquals } from "https://deno.land/std@0.224.0/assert/mod.ts";
+import { join } from "https://deno.land/std@0.224.0/path/mod.ts";
+import {
+  findNearestTsConfig,
+  findResolutionConfig,
+  loadConfigFile,
+} from "../src/config.ts";
+
+Deno.test("should find the nearest configuration of each file", async () => {
+  const tempDir = await Deno.makeTempDir();
+
+  try {
+    await Deno.mkdir(join(tempDir, "packages/web/src"), { recursive: true });
+    await Deno.mkdir(join(tempDir, "packages/api/src"), { recursive: true });
+    await Deno.writeTextFile(
+      join(tempDir, "import_map.json"),
+      JSON.stringify({ imports: { "shared/": "./shared/" } }),
+    );
+    await Deno.writeTextFile(
+      join(tempDir, "packages/web/tsconfig.json"),
+      JSON.stringify({ compilerOptions: { paths: { "@/*": ["./src/*"] } } }),
+    );
+
+    const web = await findResolutionConfig(
+      join(tempDir, "packages/web/src/app.ts"),
+    );
+    assertEquals(
+      web.tsConfig?.configPath,
+      join(tempDir, "packages/web/tsconfig.json"),
+    );
+    assertEquals(web.importMap?.configPath, join(tempDir, "import_map.json"));
+
+    const api = await findResolutionConfig(
+      join(tempDir, "packages/api/src/server.ts"),
+    );
+    assertEquals(api.tsConfig, null);
+    assertEquals(api.importMap, web.importMap);
+
+    // Parsed configurations are shared between the files they apply to
+    assertEquals(
+      await findNearestTsConfig(join(tempDir, "packages/web/src")) ===
+        web.tsConfig,
+      true,
+    );
+  } finally {
+    await Deno.remove(tempDir, { recursive: true });
+  }
+});
+
+Deno.test("should load configuration files given explicitly", async () => {
+  const tempDir = await Deno.makeTempDir();
+
+  try {
+    await Deno.writeTextFile(
+      join(tempDir, "deno.json"),
+      JSON.stringify({ imports: { "a": "./a.ts" } }),
+    );
+    await Deno.writeTextFile(
+      join(tempDir, "map.json"),
+      JSON.stringify({ scopes: {} }),
+    );
+    await Deno.writeTextFile(
+      join(tempDir, "tsconfig.base.json"),
+      JSON.stringify({ compilerOptions: { baseUrl: "." } }),
+    );
+
+    const denoConfig = await loadConfigFile(join(tempDir, "deno.json"));
+    assertEquals(denoConfig.importMap?.imports, { "a": "./a.ts" });
+    assertEquals(denoConfig.tsConfig, undefined);
+
+    const importMap = await loadConfigFile(join(tempDir, "map.json"));
+    assertEquals(importMap.importMap?.scopes, {});
+
+    const tsConfig = await loadConfigFile(join(tempDir, "tsconfig.base.json"));
+    assertEquals(tsConfig.tsConfig?.compilerOptions?.baseUrl, ".");
+    assertEquals(tsConfig.importMap, undefined);
+
+    // An override replaces discovery only for the kind it defines
+    const resolved = await findResolutionConfig(
+      join(tempDir, "app.ts"),
+      tsConfig,
+    );
+    assertEquals(resolved.tsConfig, tsConfig.tsConfig);
+    assertEquals(resolved.importMap?.imports, { "a": "./a.ts" });
+  } finally {
+    await Deno.remove(tempDir, { recursive: true });
+  }
+});
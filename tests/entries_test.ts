@@ -0,0 +1,62 @@
+import { assertEquals } from "https://deno.land/std@0.224.0/assert/mod.ts";
+import { join } from "https://deno.land/std@0.224.0/path/mod.ts";
+import { findEntryPoints, isTestFile } from "../src/entries.ts";
+
+Deno.test("should recognize test files", () => {
+  assertEquals(isTestFile("src/cli_test.ts"), true);
+  assertEquals(isTestFile("src/button.test.tsx"), true);
+  assertEquals(isTestFile("src/button.spec.js"), true);
+  assertEquals(isTestFile("test.ts"), true);
+  assertEquals(isTestFile("src/__tests__/button.tsx"), true);
+  assertEquals(isTestFile("src/contest.ts"), false);
+  assertEquals(isTestFile("src/test_utils.ts"), false);
+});
+
+Deno.test("should detect entry points from manifests and patterns", async () => {
+  const tempDir = await Deno.makeTempDir();
+
+  try {
+    await Deno.mkdir(join(tempDir, "src/pages"), { recursive: true });
+    await Deno.mkdir(join(tempDir, "tools"));
+    await Deno.writeTextFile(
+      join(tempDir, "package.json"),
+      JSON.stringify({
+        main: "./src/index",
+        bin: { tool: "tools/tool.js" },
+        exports: {
+          ".": { import: "./src/index.ts" },
+          "./util": "./src/util.ts",
+        },
+      }),
+    );
+    await Deno.writeTextFile(
+      join(tempDir, "deno.json"),
+      '{ "tasks": { "dev": "deno run -A --watch src/dev.ts", "x": "deno fmt" } }',
+    );
+    const names = [
+      "src/index.ts",
+      "src/util.ts",
+      "src/dev.ts",
+      "src/lonely.ts",
+      "src/index_test.ts",
+      "src/pages/home.tsx",
+      "tools/tool.js",
+    ];
+    for (const name of names) {
+      await Deno.writeTextFile(join(tempDir, name), "");
+    }
+    const files = names.map((name) => join(tempDir, name));
+
+    const entries = await findEntryPoints(files, tempDir, ["src/pages/**"]);
+    assertEquals(entries.map((entry) => [entry.file, entry.reason]), [
+      [join(tempDir, "src/index.ts"), "package.json main"],
+      [join(tempDir, "src/util.ts"), "package.json exports"],
+      [join(tempDir, "src/dev.ts"), 'deno.json task "dev"'],
+      [join(tempDir, "src/index_test.ts"), "test file"],
+      [join(tempDir, "src/pages/home.tsx"), "--entry src/pages/**"],
+      [join(tempDir, "tools/tool.js"), "package.json bin"],
+    ]);
+  } finally {
+    await Deno.remove(tempDir, { recursive: true });
+  }
+});
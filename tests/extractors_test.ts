@@ -0,0 +1,167 @@
+import { assertEquals } from "https://deno.land/std@0.224.0/assert/mod.ts";
+import {
+  extractFileImports,
+  extractScriptBlocks,
+  extractStylesheetImports,
+} from "../src/extractors.ts";
+
+Deno.test("should extract both script blocks of a Vue component", () => {
+  const source = [
+    "<template>",
+    "  <Button label=\"import x from './nope'\" />",
+    "</template>",
+    '<script lang="ts">',
+    'import { defineComponent } from "vue";',
+    "</script>",
+    "<script setup>",
+    'import Button from "./Button.vue"',
+    "</script>",
+  ].join("\n");
+
+  const imports = extractFileImports("App.vue", source);
+
+  assertEquals(imports.map((imp) => imp.module), ["vue", "./Button.vue"]);
+  assertEquals(imports.map((imp) => imp.lineNumber), [5, 8]);
+});
+
+Deno.test("should map columns of imports on the script tag line", () => {
+  const source = '<div />\n<script>import "./a.js"</script>\n';
+
+  const imports = extractFileImports("Widget.svelte", source);
+
+  assertEquals(imports[0].lineNumber, 2);
+  assertEquals(imports[0].column, 16);
+});
+
+Deno.test("should extract Astro frontmatter and client scripts", () => {
+  const source = [
+    "---",
+    'import Layout from "../layouts/Layout.astro";',
+    "const title = 'Home';",
+    "---",
+    "<Layout title={title}>",
+    "  <script>",
+    '    import "../scripts/menu.ts";',
+    "  </script>",
+    "</Layout>",
+  ].join("\n");
+
+  const imports = extractFileImports("index.astro", source);
+
+  assertEquals(imports.map((imp) => imp.module), [
+    "../layouts/Layout.astro",
+    "../scripts/menu.ts",
+  ]);
+  assertEquals(imports.map((imp) => imp.lineNumber), [2, 7]);
+});
+
+Deno.test("should extract MDX ESM blocks outside of code fences", () => {
+  const source = [
+    "# Title",
+    "",
+    'import { Chart } from "./Chart.tsx"',
+    'export { meta } from "./meta.ts"',
+    "",
+    "Some text mentioning import x from 'y'.",
+    "",
+    "```js",
+    'import hidden from "./hidden.js"',
+    "```",
+    "",
+    "<Chart />",
+  ].join("\n");
+
+  const imports = extractFileImports("post.mdx", source);
+
+  assertEquals(imports.map((imp) => imp.module), ["./Chart.tsx", "./meta.ts"]);
+  assertEquals(imports.map((imp) => imp.lineNumber), [3, 4]);
+});
+
+Deno.test("should treat other files as plain script code", () => {
+  assertEquals(extractScriptBlocks("main.ts", 'import "./a.ts";'), null);
+  assertEquals(
+    extractFileImports("main.ts", 'import "./a.ts";').map((imp) => imp.module),
+    ["./a.ts"],
+  );
+});
+
+Deno.test("should extract stylesheet rules and url references", () => {
+  const source = [
+    '@use "sass:math";',
+    "@use 'variables' as vars;",
+    '@forward "src/list" hide list-reset;',
+    '@import "mixins", "helpers";',
+    "@import url(base.css) screen;",
+    "@font-face {",
+    "  src: url('../fonts/icons.woff2?v=3#iefix') format('woff2');",
+    "}",
+    ".logo { background: URL( img/logo.png ); }",
+  ].join("\n");
+
+  const imports = extractStylesheetImports(source);
+
+  assertEquals(imports.map((imp) => [imp.module, imp.edge, imp.lineNumber]), [
+    ["sass:math", "import", 1],
+    ["variables", "import", 2],
+    ["src/list", "reexport", 3],
+    ["mixins", "import", 4],
+    ["helpers", "import", 4],
+    ["base.css", "import", 5],
+    ["../fonts/icons.woff2", "url", 7],
+    ["img/logo.png", "url", 9],
+  ]);
+  assertEquals(imports[4].column, 19);
+});
+
+Deno.test("should skip comments, data URIs and computed stylesheet references", () => {
+  const source = [
+    "/* @import 'commented'; */",
+    "// @use 'line-comment';",
+    ".a { content: '@import \"quoted\"'; }",
+    ".b { background: url(data:image/png;base64,AAAA); }",
+    ".c { mask: url(#mask); }",
+    '@import "#{$theme}/colors";',
+    "@import (reference) 'less-options';",
+  ].join("\n");
+
+  const imports = extractStylesheetImports(source);
+
+  assertEquals(imports.map((imp) => imp.module), ["less-options"]);
+  assertEquals(
+    extractFileImports("a.css", "a { b: c } // @import 'x';").map((imp) =>
+      imp.module
+    ),
+    ["x"],
+  );
+});
+
+Deno.test("should extract script, modulepreload and inline module references from HTML", () => {
+  const source = [
+    "<!doctype html>",
+    "<html>",
+    "<head>",
+    '  <link rel="modulepreload" href="/src/vendor.ts">',
+    "  <link rel=stylesheet href=styles/app.css>",
+    '  <link rel="icon" href="/favicon.ico">',
+    '  <script type="importmap">{ "imports": { "x": "./x.js" } }</script>',
+    '  <!-- <script src="./old.js"></script> -->',
+    "</head>",
+    "<body>",
+    '  <script type="module" src="./src/main.ts?v=2"></script>',
+    '  <script type="module">import { start } from "./src/start.ts"</script>',
+    '  <script src="https://cdn.example.com/lib.js"></script>',
+    "</body>",
+    "</html>",
+  ].join("\n");
+
+  const imports = extractFileImports("index.html", source);
+
+  assertEquals(imports.map((imp) => [imp.module, imp.edge, imp.lineNumber]), [
+    ["/src/vendor.ts", "html", 4],
+    ["./styles/app.css", "html", 5],
+    ["./src/main.ts", "html", 11],
+    ["./src/start.ts", "import", 12],
+  ]);
+  assertEquals(imports[2].column, 29);
+  assertEquals(imports[3].column, 47);
+});
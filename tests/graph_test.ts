@@ -0,0 +1,361 @@
+import {
+  assertEquals,
+  assertRejects,
+} from "https://deno.land/std@0.224.0/assert/mod.ts";
+import { join } from "https://deno.land/std@0.224.0/path/mod.ts";
+import {
+  buildImportGraph,
+  cycleKey,
+  findDependencies,
+  findImportCycles,
+  findOrphans,
+  findTransitiveImporters,
+  findUnusedExports,
+  graphNode,
+  readCycleBaseline,
+} from "../src/graph.ts";
+
+/**
+ * Write the files of a project into a temporary directory
+ */
+async function writeProject(
+  tempDir: string,
+  project: Record<string, string>,
+): Promise<string[]> {
+  for (const [name, content] of Object.entries(project)) {
+    await Deno.writeTextFile(join(tempDir, name), content);
+  }
+  return Object.keys(project).map((name) => join(tempDir, name));
+}
+
+Deno.test("should index the imports of every file both ways", async () => {
+  const tempDir = await Deno.makeTempDir();
+
+  try {
+    const files = await writeProject(tempDir, {
+      "a.ts": 'import "./b";\nimport "npm:preact";\n',
+      "b.ts": 'import type { T } from "./c.ts";\n',
+      "c.ts": "export type T = string;\n",
+    });
+
+    const graph = await buildImportGraph(files);
+    assertEquals(graph.edges.length, 2);
+    assertEquals(
+      graph.imports.get(graphNode(join(tempDir, "a.ts")))!
+        .map((edge) => edge.resolved.resolvedPath),
+      [join(tempDir, "b.ts")],
+    );
+    assertEquals(
+      graph.importers.get(graphNode(join(tempDir, "c.ts")))!
+        .map((edge) => edge.resolved.sourceFile),
+      [join(tempDir, "b.ts")],
+    );
+
+    const runtime = await buildImportGraph(files, { runtimeOnly: true });
+    assertEquals(
+      runtime.importers.has(graphNode(join(tempDir, "c.ts"))),
+      false,
+    );
+  } finally {
+    await Deno.remove(tempDir, { recursive: true });
+  }
+});
+
+Deno.test("should walk importers transitively through cycles", async () => {
+  const tempDir = await Deno.makeTempDir();
+
+  try {
+    // util <- a <- b <- page, with b and a importing each other
+    const files = await writeProject(tempDir, {
+      "util.ts": "export const x = 1;\n",
+      "a.ts": 'import { x } from "./util.ts";\nimport "./b.ts";\n',
+      "b.ts": 'import "./a.ts";\n',
+      "page.ts": 'import "./b.ts";\nimport "./util.ts";\n',
+      "other.ts": "",
+    });
+
+    const importers = await findTransitiveImporters(
+      join(tempDir, "util"),
+      files,
+      tempDir,
+    );
+    assertEquals(
+      importers.map((imp) => [imp.sourceFile, imp.distance]),
+      [
+        [join(tempDir, "a.ts"), 1],
+        [join(tempDir, "page.ts"), 1],
+        [join(tempDir, "b.ts"), 2],
+      ],
+    );
+    assertEquals(importers[2].importedFile, join(tempDir, "a.ts"));
+    assertEquals(importers[2].chain, [
+      join(tempDir, "b.ts"),
+      join(tempDir, "a.ts"),
+      join(tempDir, "util.ts"),
+    ]);
+
+    const direct = await findTransitiveImporters(
+      join(tempDir, "util.ts"),
+      files,
+      tempDir,
+      { depth: 1 },
+    );
+    assertEquals(direct.map((imp) => imp.sourceFile), [
+      join(tempDir, "a.ts"),
+      join(tempDir, "page.ts"),
+    ]);
+
+    // Only importers of the export are followed
+    const bySymbol = await findTransitiveImporters(
+      join(tempDir, "util.ts"),
+      files,
+      tempDir,
+      { symbol: "x" },
+    );
+    assertEquals(bySymbol.map((imp) => imp.sourceFile), [
+      join(tempDir, "a.ts"),
+      join(tempDir, "b.ts"),
+      join(tempDir, "page.ts"),
+    ]);
+  } finally {
+    await Deno.remove(tempDir, { recursive: true });
+  }
+});
+
+Deno.test("should list the imports of a file and follow them", async () => {
+  const tempDir = await Deno.makeTempDir();
+
+  try {
+    // app -> a -> b -> a, with a package, a URL and a missing file
+    await Deno.mkdir(join(tempDir, "node_modules", "pkg"), { recursive: true });
+    await writeProject(tempDir, {
+      "node_modules/pkg/package.json": '{ "name": "pkg", "main": "main.js" }',
+      "node_modules/pkg/main.js": "",
+      "app.ts": 'import "./a";\nimport "pkg";\nimport "./missing.ts";\n',
+      "a.ts": 'import type { B } from "./b.ts";\n',
+      "b.ts": 'import "./a.ts";\nimport "https://deno.land/x/mod.ts";\n',
+    });
+
+    const direct = await findDependencies(join(tempDir, "app"));
+    assertEquals(
+      direct.dependencies.map((dep) => [dep.importPath, dep.resolvedPath]),
+      [["./a", join(tempDir, "a.ts")]],
+    );
+    assertEquals(direct.external.map((dep) => dep.resolvedPath), [
+      join(tempDir, "node_modules", "pkg", "main.js"),
+    ]);
+    assertEquals(direct.unresolved.map((dep) => dep.importPath), [
+      "./missing.ts",
+    ]);
+
+    const all = await findDependencies(join(tempDir, "app.ts"), {
+      transitive: true,
+    });
+    assertEquals(
+      all.dependencies.map((dep) => [dep.importPath, dep.distance]),
+      [["./a", 1], ["./b.ts", 2], ["./a.ts", 3]],
+    );
+    assertEquals(all.dependencies[1].importKind, "type-only");
+    assertEquals(all.external.map((dep) => dep.importPath), [
+      "pkg",
+      "https://deno.land/x/mod.ts",
+    ]);
+
+    const limited = await findDependencies(join(tempDir, "app.ts"), {
+      transitive: true,
+      depth: 2,
+      runtimeOnly: true,
+    });
+    assertEquals(limited.dependencies.map((dep) => dep.importPath), ["./a"]);
+  } finally {
+    await Deno.remove(tempDir, { recursive: true });
+  }
+});
+
+Deno.test("should list registry packages that are not installed as external", async () => {
+  const tempDir = await Deno.makeTempDir();
+
+  try {
+    await writeProject(tempDir, {
+      "deno.json": '{ "imports": { "path": "jsr:@std/path@^1.0.0" } }',
+      "app.ts": [
+        'import { h } from "npm:preact@10/hooks";',
+        'import { join } from "path";',
+        'import "./missing.ts";',
+      ].join("\n"),
+    });
+
+    const deps = await findDependencies(join(tempDir, "app.ts"));
+    assertEquals(
+      deps.external.map((
+        dep,
+      ) => [dep.importPath, dep.resolvedPath, dep.package]),
+      [
+        ["npm:preact@10/hooks", null, "npm:preact"],
+        ["path", null, "jsr:@std/path"],
+      ],
+    );
+    assertEquals(deps.unresolved.map((dep) => dep.importPath), [
+      "./missing.ts",
+    ]);
+  } finally {
+    await Deno.remove(tempDir, { recursive: true });
+  }
+});
+
+Deno.test("should find each group of files importing each other", async () => {
+  const tempDir = await Deno.makeTempDir();
+
+  try {
+    // a <-> b, with c joining through a type-only import, and s importing
+    // itself
+    const files = await writeProject(tempDir, {
+      "a.ts": 'import "./b";\n',
+      "b.ts": 'import "./c";\nimport "./a";\n',
+      "c.ts": 'import type { A } from "./b";\n',
+      "s.ts": 'import "./s.ts";\n',
+      "leaf.ts": 'import "./a.ts";\n',
+    });
+
+    const cycles = await findImportCycles(files);
+    assertEquals(cycles.map((cycle) => cycle.files), [
+      [join(tempDir, "a.ts"), join(tempDir, "b.ts"), join(tempDir, "c.ts")],
+      [join(tempDir, "s.ts")],
+    ]);
+    assertEquals(
+      cycles[0].chain.map((step) => [step.sourceFile, step.lineNumber]),
+      [[join(tempDir, "a.ts"), 1], [join(tempDir, "b.ts"), 2]],
+    );
+    assertEquals(cycles[0].chain[1].importedFile, join(tempDir, "a.ts"));
+
+    const runtime = await findImportCycles(files, { runtimeOnly: true });
+    assertEquals(runtime[0].files, [
+      join(tempDir, "a.ts"),
+      join(tempDir, "b.ts"),
+    ]);
+  } finally {
+    await Deno.remove(tempDir, { recursive: true });
+  }
+});
+
+Deno.test("should read known cycles from a previous run", async () => {
+  const tempDir = await Deno.makeTempDir();
+
+  try {
+    const baselinePath = join(tempDir, "cycles.json");
+    await Deno.writeTextFile(
+      baselinePath,
+      JSON.stringify({
+        root: tempDir,
+        count: 1,
+        cycles: [{ files: [join(tempDir, "b.ts"), join(tempDir, "a.ts")] }],
+      }),
+    );
+
+    const known = await readCycleBaseline(baselinePath);
+    // Files are compared relative to the root they were scanned from
+    assertEquals(known.has(cycleKey(["b.ts", "a.ts"], ".")), true);
+    assertEquals(known.has(cycleKey(["a.ts", "c.ts"], ".")), false);
+    assertEquals(
+      known.has(
+        cycleKey([join(tempDir, "a.ts"), join(tempDir, "b.ts")], tempDir),
+      ),
+      true,
+    );
+
+    await Deno.writeTextFile(baselinePath, "[]");
+    await assertRejects(() => readCycleBaseline(baselinePath), Error);
+  } finally {
+    await Deno.remove(tempDir, { recursive: true });
+  }
+});
+
+Deno.test("should find files no entry point reaches", async () => {
+  const tempDir = await Deno.makeTempDir();
+
+  try {
+    // main -> used, main -> lazy (dynamic), dead -> dead-helper
+    const files = await writeProject(tempDir, {
+      "main.ts":
+        'import "./used.ts";\nconst lazy = () => import("./lazy.ts");\n',
+      "used.ts": "",
+      "lazy.ts": 'import "./lazy-helper.ts";\n',
+      "lazy-helper.ts": "",
+      "dead.ts": 'import "./dead-helper.ts";\n',
+      "dead-helper.ts": "",
+      "used_test.ts": 'import "./used.ts";\n',
+    });
+
+    const result = await findOrphans(files, tempDir, { entries: ["main.ts"] });
+    assertEquals(result.entries.map((entry) => entry.reason), [
+      "--entry main.ts",
+      "test file",
+    ]);
+    assertEquals(result.orphans, [
+      join(tempDir, "dead.ts"),
+      join(tempDir, "dead-helper.ts"),
+    ]);
+    assertEquals(result.unimported, [join(tempDir, "dead.ts")]);
+    assertEquals(result.dynamicOnly, [
+      join(tempDir, "lazy.ts"),
+      join(tempDir, "lazy-helper.ts"),
+    ]);
+  } finally {
+    await Deno.remove(tempDir, { recursive: true });
+  }
+});
+
+Deno.test("should find exports no file imports", async () => {
+  const tempDir = await Deno.makeTempDir();
+
+  try {
+    // main uses x through the barrel and one member of the namespace of ns
+    const files = await writeProject(tempDir, {
+      "main.ts": [
+        'import { x, util } from "./barrel.ts";',
+        'import * as ns from "./ns.ts";',
+        "ns.used();",
+      ].join("\n"),
+      "barrel.ts":
+        'export * from "./a.ts";\nexport { y as util } from "./b.ts";\n',
+      "a.ts": "export const x = 1;\nexport function unused() {}\n",
+      "b.ts": "export const y = 1;\nexport default 2;\n",
+      "ns.ts": "export const used = 1;\nexport type Unused = string;\n",
+      "lazy.ts": "export const whole = 1;\n",
+      "loader.ts": 'export const load = () => import("./lazy.ts");\n',
+    });
+
+    const unused = await findUnusedExports(files, tempDir, {
+      entries: ["main.ts"],
+    });
+    assertEquals(
+      unused.map((exp) => [exp.file, exp.name, exp.lineNumber, exp.isType]),
+      [
+        [join(tempDir, "a.ts"), "unused", 2, false],
+        [join(tempDir, "b.ts"), "default", 2, false],
+        [join(tempDir, "ns.ts"), "Unused", 2, true],
+        [join(tempDir, "loader.ts"), "load", 1, false],
+      ],
+    );
+  } finally {
+    await Deno.remove(tempDir, { recursive: true });
+  }
+});
+
+Deno.test("should use every export of a namespace used as a whole", async () => {
+  const tempDir = await Deno.makeTempDir();
+
+  try {
+    const files = await writeProject(tempDir, {
+      "main.ts": 'import * as ns from "./m.ts";\nns.a;\nuse(ns);\n',
+      "m.ts": "export const a = 1;\nexport const b = 2;\n",
+    });
+
+    const unused = await findUnusedExports(files, tempDir, {
+      entries: ["main.ts"],
+    });
+    assertEquals(unused, []);
+  } finally {
+    await Deno.remove(tempDir, { recursive: true });
+  }
+});
@@ -0,0 +1,122 @@
+import { assertEquals } from "https://deno.land/std@0.224.0/assert/mod.ts";
+import { join, resolve } from "https://deno.land/std@0.224.0/path/mod.ts";
+import { findImportMap, resolveImportMapSpecifier } from "../src/importmap.ts";
+
+Deno.test("should prefer exact matches and the longest prefix", () => {
+  const importMap = {
+    imports: {
+      "lib/": "./lib/",
+      "lib/ui/": "./packages/ui/",
+      "lib/ui/button": "./button.ts",
+      "react": "npm:preact@10/compat",
+    },
+  };
+  const importer = "/repo/src/app.ts";
+
+  assertEquals(
+    resolveImportMapSpecifier(importMap, importer, "lib/ui/button", "/repo"),
+    "/repo/button.ts",
+  );
+  assertEquals(
+    resolveImportMapSpecifier(importMap, importer, "lib/ui/card.ts", "/repo"),
+    "/repo/packages/ui/card.ts",
+  );
+  assertEquals(
+    resolveImportMapSpecifier(importMap, importer, "lib/a.ts", "/repo"),
+    "/repo/lib/a.ts",
+  );
+  assertEquals(
+    resolveImportMapSpecifier(importMap, importer, "react", "/repo"),
+    "npm:preact@10/compat",
+  );
+  assertEquals(
+    resolveImportMapSpecifier(importMap, importer, "vue", "/repo"),
+    null,
+  );
+});
+
+Deno.test("should apply the most specific scope of the importer", () => {
+  const importMap = {
+    imports: { "config": "./config.ts", "./src/env.ts": "./env.prod.ts" },
+    scopes: {
+      "./legacy/": { "config": "./legacy/config.ts" },
+      "./legacy/v1/": { "config": "./legacy/v1/config.ts" },
+    },
+  };
+
+  assertEquals(
+    resolveImportMapSpecifier(importMap, "/repo/app.ts", "config", "/repo"),
+    "/repo/config.ts",
+  );
+  assertEquals(
+    resolveImportMapSpecifier(
+      importMap,
+      "/repo/legacy/v1/app.ts",
+      "config",
+      "/repo",
+    ),
+    "/repo/legacy/v1/config.ts",
+  );
+  assertEquals(
+    resolveImportMapSpecifier(
+      importMap,
+      "/repo/legacy/app.ts",
+      "config",
+      "/repo",
+    ),
+    "/repo/legacy/config.ts",
+  );
+  assertEquals(
+    resolveImportMapSpecifier(importMap, "/repo/src/a.ts", "./env.ts", "/repo"),
+    "/repo/env.prod.ts",
+  );
+});
+
+Deno.test("should apply scopes to importers given relative to the working directory", () => {
+  const importMap = {
+    imports: { "config": "./config.ts" },
+    scopes: { "./legacy/": { "config": "./legacy/config.ts" } },
+  };
+
+  assertEquals(
+    resolveImportMapSpecifier(importMap, "legacy/app.ts", "config", "."),
+    resolve("legacy/config.ts"),
+  );
+});
+
+Deno.test("should load import maps from Deno configuration", async () => {
+  const tempDir = await Deno.makeTempDir();
+
+  try {
+    await Deno.writeTextFile(
+      join(tempDir, "deno.jsonc"),
+      `{
+        // Import map in a separate file
+        "importMap": "./maps/import_map.json",
+      }`,
+    );
+    await Deno.mkdir(join(tempDir, "maps"));
+    await Deno.writeTextFile(
+      join(tempDir, "maps/import_map.json"),
+      JSON.stringify({ imports: { "@/": "../src/" } }),
+    );
+
+    const importMap = await findImportMap(tempDir);
+    assertEquals(importMap, {
+      configPath: join(tempDir, "maps/import_map.json"),
+      imports: { "@/": "../src/" },
+    });
+
+    await Deno.writeTextFile(
+      join(tempDir, "deno.json"),
+      JSON.stringify({ imports: { "std/": "jsr:@std/" }, tasks: {} }),
+    );
+    assertEquals(await findImportMap(tempDir), {
+      configPath: join(tempDir, "deno.json"),
+      imports: { "std/": "jsr:@std/" },
+      scopes: undefined,
+    });
+  } finally {
+    await Deno.remove(tempDir, { recursive: true });
+  }
+});
@@ -0,0 +1,56 @@
+import { assertEquals } from "https://deno.land/std@0.224.0/assert/mod.ts";
+import { tokenize } from "../src/lexer.ts";
+
+Deno.test("should skip comments and whitespace", () => {
+  const tokens = tokenize("// line\nfoo /* block\n */ bar");
+
+  assertEquals(tokens.map((t) => t.value), ["foo", "bar"]);
+  assertEquals(tokens[0].line, 2);
+  assertEquals(tokens[1].line, 3);
+  assertEquals(tokens[1].newlineBefore, true);
+});
+
+Deno.test("should unescape string literals", () => {
+  const tokens = tokenize(`x = "a\\"b" + 'c\\u0064'`);
+  const strings = tokens.filter((t) => t.type === "string");
+
+  assertEquals(strings.map((t) => t.value), ['a"b', "cd"]);
+});
+
+Deno.test("should keep escapes of code points out of range", () => {
+  const tokens = tokenize(
+    'const s = "\\u{110000}"; import { a } from "./m.ts";',
+  );
+  const strings = tokens.filter((t) => t.type === "string");
+
+  assertEquals(strings.map((t) => t.value), ["\\u{110000}", "./m.ts"]);
+});
+
+Deno.test("should tell regex literals from division", () => {
+  const division = tokenize("a / b / c");
+  assertEquals(division.filter((t) => t.type === "regex").length, 0);
+
+  const regex = tokenize("x = /a'b/g; if (y) /c\"d/.test(z)");
+  assertEquals(
+    regex.filter((t) => t.type === "regex").map((t) => t.value),
+    ["/a'b/g", '/c"d/'],
+  );
+});
+
+Deno.test("should split template literals around substitutions", () => {
+  const tokens = tokenize("`a${ {b: 1}.b }c${d}e`");
+
+  assertEquals(tokens[0].type, "templateHead");
+  assertEquals(tokens[0].value, "a");
+  const middle = tokens.find((t) => t.type === "templateMiddle");
+  assertEquals(middle?.value, "c");
+  assertEquals(tokens[tokens.length - 1].type, "templateTail");
+  assertEquals(tokens[tokens.length - 1].value, "e");
+});
+
+Deno.test("should recover from unterminated strings", () => {
+  const tokens = tokenize("<p>Don't stop</p>\nnext");
+
+  assertEquals(tokens[tokens.length - 1].value, "next");
+  assertEquals(tokens[tokens.length - 1].line, 2);
+});
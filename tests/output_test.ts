@@ -1,6 +1,17 @@
 import { assertEquals } from "https://deno.land/std@0.224.0/assert/mod.ts";
-import { formatDirectoryText, formatJson, formatOutput, formatText } from "../src/output.ts";
- 
+import {
+  formatCyclesText,
+  formatDependencyText,
+  formatDirectoryText,
+  formatExplainText,
+  formatJson,
+  formatOrphansText,
+  formatOutput,
+  formatText,
+  formatTransitiveText,
+  formatUnusedExportsText,
+} from "../src/output.ts";
+
 // Mock console.log to capture output
 const originalConsoleLog = console.log;
 
@@ -87,6 +98,87 @@ Deno.test("should format text output with no importers", () => {
   }
 });
 
+Deno.test("should annotate re-exports and barrel chains in text output", () => {
+  const result = {
+    target: "src/button.ts",
+    root: ".",
+    count: 2,
+    importers: ["src/index.ts", "src/app.ts"],
+    references: [
+      {
+        sourceFile: "src/index.ts",
+        importPath: "./button.ts",
+        lineNumber: 1,
+        edge: "reexport",
+      },
+      {
+        sourceFile: "src/app.ts",
+        importPath: "./index.ts",
+        lineNumber: 3,
+        edge: "import",
+        via: ["src/index.ts"],
+      },
+    ],
+  };
+
+  // Capture console output
+  let capturedOutput = "";
+  console.log = (message: string) => {
+    capturedOutput += message + "\n";
+  };
+
+  try {
+    formatText(result);
+
+    assertEquals(capturedOutput.includes("src/index.ts (re-export)"), true);
+    assertEquals(
+      capturedOutput.includes("src/app.ts (via src/index.ts)"),
+      true,
+    );
+  } finally {
+    // Restore console.log
+    console.log = originalConsoleLog;
+  }
+});
+
+Deno.test("should flag possible importers in text output", () => {
+  const result = {
+    target: "src/locale/fr.ts",
+    root: ".",
+    count: 1,
+    importers: ["src/i18n.ts"],
+    references: [
+      {
+        sourceFile: "src/i18n.ts",
+        importPath: "./locale/*.ts",
+        lineNumber: 4,
+        isDynamic: true,
+        possible: true,
+      },
+    ],
+  };
+
+  // Capture console output
+  let capturedOutput = "";
+  console.log = (message: string) => {
+    capturedOutput += message + "\n";
+  };
+
+  try {
+    formatText(result);
+
+    assertEquals(
+      capturedOutput.includes(
+        'src/i18n.ts (possible, dynamic import of "./locale/*.ts")',
+      ),
+      true,
+    );
+  } finally {
+    // Restore console.log
+    console.log = originalConsoleLog;
+  }
+});
+
 Deno.test("should format JSON output", () => {
   const result = {
     target: "src/component.tsx",
@@ -209,3 +301,522 @@ Deno.test("should format directory text output with alternating line breaks", ()
     console.log = originalConsoleLog;
   }
 });
+
+Deno.test("should describe each import in directory text output", () => {
+  const result = {
+    target: "lib",
+    root: ".",
+    count: 4,
+    groups: [
+      {
+        importedFile: "lib/x.ts",
+        importers: [
+          {
+            sourceFile: "index.html",
+            importPath: "./lib/x.ts",
+            lineNumber: 1,
+            edge: "html",
+          },
+          {
+            sourceFile: "a.ts",
+            importPath: "./lib/x.ts",
+            lineNumber: 1,
+            edge: "import",
+            importKind: "type-only",
+          },
+          {
+            sourceFile: "b.ts",
+            importPath: "./lib/x.ts",
+            lineNumber: 2,
+            edge: "import",
+            isDynamic: true,
+          },
+          {
+            sourceFile: "a_test.ts",
+            importPath: "./lib/x.ts",
+            lineNumber: 3,
+            edge: "mock",
+          },
+        ],
+      },
+    ],
+  };
+
+  // Capture console output
+  let capturedOutput = "";
+  console.log = (message: string) => {
+    capturedOutput += message + "\n";
+  };
+
+  try {
+    formatDirectoryText(result);
+
+    assertEquals(
+      capturedOutput,
+      "file lib/x.ts imported by\n" +
+        " index.html (html reference)\n" +
+        " a.ts (type-only)\n" +
+        " b.ts (dynamic)\n" +
+        " a_test.ts (mock)\n",
+    );
+  } finally {
+    // Restore console.log
+    console.log = originalConsoleLog;
+  }
+});
+
+Deno.test("should label HTML references in text output", () => {
+  const result = {
+    target: "src/main.ts",
+    root: ".",
+    count: 1,
+    importers: ["index.html"],
+    references: [
+      {
+        sourceFile: "index.html",
+        importPath: "./src/main.ts",
+        lineNumber: 5,
+        edge: "html" as const,
+        importKind: "side-effect" as const,
+      },
+    ],
+  };
+
+  // Capture console output
+  let capturedOutput = "";
+  console.log = (message: string) => {
+    capturedOutput += message + "\n";
+  };
+
+  try {
+    formatText(result);
+
+    assertEquals(
+      capturedOutput.includes("index.html (html reference, side-effect)"),
+      true,
+    );
+  } finally {
+    // Restore console.log
+    console.log = originalConsoleLog;
+  }
+});
+
+Deno.test("should note imports through symlinks in text output", () => {
+  const result = {
+    target: "packages/ui/src/button.ts",
+    root: ".",
+    count: 1,
+    importers: ["app/main.ts"],
+    references: [
+      {
+        sourceFile: "app/main.ts",
+        importPath: "./ui/src/button.ts",
+        lineNumber: 1,
+        importKind: "side-effect" as const,
+        resolvedPath: "/repo/app/ui/src/button.ts",
+        realPath: "/repo/packages/ui/src/button.ts",
+      },
+    ],
+  };
+
+  // Capture console output
+  let capturedOutput = "";
+  console.log = (message: string) => {
+    capturedOutput += message + "\n";
+  };
+
+  try {
+    formatText(result);
+
+    assertEquals(
+      capturedOutput.includes(
+        "app/main.ts (side-effect, through symlink /repo/app/ui/src/button.ts)",
+      ),
+      true,
+    );
+  } finally {
+    // Restore console.log
+    console.log = originalConsoleLog;
+  }
+});
+
+Deno.test("should list mocks in a separate section of text output", () => {
+  const result = {
+    target: "src/api.ts",
+    root: ".",
+    count: 2,
+    importers: ["src/app.ts", "tests/app_test.ts"],
+    references: [
+      {
+        sourceFile: "src/app.ts",
+        importPath: "./api.ts",
+        lineNumber: 1,
+        edge: "import",
+      },
+      {
+        sourceFile: "tests/app_test.ts",
+        importPath: "../src/api.ts",
+        lineNumber: 3,
+        edge: "mock",
+      },
+    ],
+  };
+
+  // Capture console output
+  let capturedOutput = "";
+  console.log = (message: string) => {
+    capturedOutput += message + "\n";
+  };
+
+  try {
+    formatText(result);
+
+    assertEquals(
+      capturedOutput,
+      '2 files import "src/api.ts":\n' +
+        "Importers:\n" +
+        "  src/app.ts\n" +
+        "Mocks and path references:\n" +
+        "  tests/app_test.ts\n",
+    );
+  } finally {
+    // Restore console.log
+    console.log = originalConsoleLog;
+  }
+});
+
+Deno.test("should format resolution explanations", () => {
+  const result = {
+    importer: "/repo/src/app.ts",
+    specifier: "@/button",
+    importMap: "/repo/deno.json",
+    steps: [
+      { message: 'import map entry "@/" maps it to /repo/src/button' },
+      { message: "try", path: "/repo/src/button", exists: false },
+      { message: "try", path: "/repo/src/button.ts", exists: true },
+    ],
+    resolvedPath: "/repo/src/button.ts",
+    exists: true,
+  };
+
+  // Capture console output
+  let capturedOutput = "";
+  console.log = (message: string) => {
+    capturedOutput += message + "\n";
+  };
+
+  try {
+    formatExplainText(result);
+
+    assertEquals(
+      capturedOutput,
+      'Resolving "@/button" from /repo/src/app.ts\n' +
+        "  import map: /repo/deno.json\n" +
+        "  tsconfig: none\n" +
+        '  import map entry "@/" maps it to /repo/src/button\n' +
+        "  try /repo/src/button\n" +
+        "  try /repo/src/button.ts (found)\n" +
+        "Result: /repo/src/button.ts\n",
+    );
+  } finally {
+    // Restore console.log
+    console.log = originalConsoleLog;
+  }
+});
+
+Deno.test("should format transitive importers as a tree", () => {
+  const result = {
+    target: "src/util.ts",
+    root: ".",
+    count: 3,
+    importers: [
+      {
+        sourceFile: "src/a.ts",
+        importedFile: "src/util.ts",
+        importPath: "./util.ts",
+        lineNumber: 1,
+        distance: 1,
+        chain: ["src/a.ts", "src/util.ts"],
+      },
+      {
+        sourceFile: "src/page.ts",
+        importedFile: "src/util.ts",
+        importPath: "./util.ts",
+        lineNumber: 2,
+        distance: 1,
+        chain: ["src/page.ts", "src/util.ts"],
+      },
+      {
+        sourceFile: "src/b.ts",
+        importedFile: "src/a.ts",
+        importPath: "./a.ts",
+        lineNumber: 1,
+        distance: 2,
+        chain: ["src/b.ts", "src/a.ts", "src/util.ts"],
+      },
+    ],
+  };
+
+  // Capture console output
+  let capturedOutput = "";
+  console.log = (message: string) => {
+    capturedOutput += message + "\n";
+  };
+
+  try {
+    formatTransitiveText(result);
+    formatTransitiveText({ ...result, depth: 2, count: 0, importers: [] });
+
+    assertEquals(
+      capturedOutput,
+      '3 files depend on "src/util.ts":\n' +
+        "src/util.ts\n" +
+        "  src/a.ts\n" +
+        "    src/b.ts\n" +
+        "  src/page.ts\n" +
+        'No files depend on "src/util.ts" (depth 2)\n',
+    );
+  } finally {
+    // Restore console.log
+    console.log = originalConsoleLog;
+  }
+});
+
+Deno.test("should format dependencies as a tree with external imports", () => {
+  const dependency = {
+    column: 8,
+    edge: "import",
+    importKind: "runtime",
+    isDynamic: false,
+  };
+  const result = {
+    file: "src/app.ts",
+    transitive: true,
+    count: 3,
+    dependencies: [
+      {
+        ...dependency,
+        sourceFile: "/p/src/app.ts",
+        importPath: "./a",
+        resolvedPath: "/p/src/a.ts",
+        lineNumber: 1,
+        distance: 1,
+      },
+      {
+        ...dependency,
+        sourceFile: "/p/src/app.ts",
+        importPath: "./types",
+        resolvedPath: "/p/src/types.ts",
+        lineNumber: 2,
+        importKind: "type-only",
+        distance: 1,
+      },
+      {
+        ...dependency,
+        sourceFile: "/p/src/a.ts",
+        importPath: "./types.ts",
+        resolvedPath: "/p/src/types.ts",
+        lineNumber: 3,
+        edge: "reexport",
+        distance: 2,
+      },
+    ],
+    external: [
+      {
+        ...dependency,
+        sourceFile: "/p/src/a.ts",
+        importPath: "preact",
+        resolvedPath: "/p/node_modules/preact/dist/preact.mjs",
+        lineNumber: 1,
+        distance: 2,
+      },
+    ],
+    unresolved: [
+      {
+        ...dependency,
+        sourceFile: "/p/src/app.ts",
+        importPath: "./missing",
+        resolvedPath: null,
+        lineNumber: 4,
+        distance: 1,
+      },
+    ],
+  };
+
+  // Capture console output
+  let capturedOutput = "";
+  console.log = (message: string) => {
+    capturedOutput += message + "\n";
+  };
+
+  try {
+    formatDependencyText(result);
+    formatDependencyText({
+      ...result,
+      transitive: false,
+      count: 0,
+      dependencies: [],
+      external: undefined,
+      unresolved: undefined,
+    });
+
+    assertEquals(
+      capturedOutput,
+      '"src/app.ts" depends on 3 project files:\n' +
+        '  /p/src/a.ts ("./a", line 1)\n' +
+        '    /p/src/types.ts ("./types.ts", line 3, re-export)\n' +
+        '  /p/src/types.ts ("./types", line 2, type-only)\n' +
+        "External:\n" +
+        '  "preact" -> /p/node_modules/preact/dist/preact.mjs (/p/src/a.ts:1)\n' +
+        "Unresolved:\n" +
+        '  "./missing" (/p/src/app.ts:4)\n' +
+        '"src/app.ts" imports no project files\n',
+    );
+  } finally {
+    // Restore console.log
+    console.log = originalConsoleLog;
+  }
+});
+
+Deno.test("should format import cycles as chains", () => {
+  const result = {
+    root: "src",
+    count: 1,
+    newCount: 1,
+    cycles: [
+      {
+        files: ["src/a.ts", "src/b.ts", "src/c.ts"],
+        chain: [
+          {
+            sourceFile: "src/a.ts",
+            importedFile: "src/b.ts",
+            importPath: "./b",
+            lineNumber: 1,
+            importKind: "runtime",
+          },
+          {
+            sourceFile: "src/b.ts",
+            importedFile: "src/a.ts",
+            importPath: "./a",
+            lineNumber: 4,
+            importKind: "type-only",
+          },
+        ],
+        isNew: true,
+      },
+    ],
+  };
+
+  // Capture console output
+  let capturedOutput = "";
+  console.log = (message: string) => {
+    capturedOutput += message + "\n";
+  };
+
+  try {
+    formatCyclesText(result);
+    formatCyclesText({ root: "src", count: 0, cycles: [] });
+
+    assertEquals(
+      capturedOutput,
+      '1 import cycle found in "src", 1 new:\n' +
+        "Cycle 1 (new):\n" +
+        "  src/a.ts\n" +
+        '    -> src/b.ts ("./b", line 1)\n' +
+        '    -> src/a.ts ("./a", line 4, type-only)\n' +
+        "  Also importing each other: src/c.ts\n" +
+        'No import cycles found in "src"\n',
+    );
+  } finally {
+    // Restore console.log
+    console.log = originalConsoleLog;
+  }
+});
+
+Deno.test("should format orphan files", () => {
+  const result = {
+    root: ".",
+    files: 6,
+    entries: [{ file: "src/main.ts", reason: "package.json main" }],
+    count: 2,
+    orphans: ["src/dead.ts", "src/dead-helper.ts"],
+    unimported: ["src/dead.ts"],
+    dynamicOnly: ["src/lazy.ts"],
+  };
+
+  // Capture console output
+  let capturedOutput = "";
+  console.log = (message: string) => {
+    capturedOutput += message + "\n";
+  };
+
+  try {
+    formatOrphansText(result);
+    formatOrphansText({
+      ...result,
+      count: 0,
+      orphans: [],
+      unimported: [],
+      dynamicOnly: [],
+    });
+
+    assertEquals(
+      capturedOutput,
+      '2 of 6 files in "." are not reachable from 1 entry point:\n' +
+        "  src/dead.ts (no importers)\n" +
+        "  src/dead-helper.ts\n" +
+        "Reachable only through dynamic imports:\n" +
+        "  src/lazy.ts\n" +
+        'All 6 files in "." are reachable from 1 entry point\n',
+    );
+  } finally {
+    // Restore console.log
+    console.log = originalConsoleLog;
+  }
+});
+
+Deno.test("should format unused exports with their file and line", () => {
+  const result = {
+    root: "src",
+    count: 2,
+    exports: [
+      {
+        file: "src/util.ts",
+        name: "Options",
+        lineNumber: 3,
+        column: 1,
+        isType: true,
+      },
+      {
+        file: "src/index.ts",
+        name: "helper",
+        lineNumber: 7,
+        column: 1,
+        isType: false,
+        module: "./helper",
+      },
+    ],
+  };
+
+  // Capture console output
+  let capturedOutput = "";
+  console.log = (message: string) => {
+    capturedOutput += message + "\n";
+  };
+
+  try {
+    formatUnusedExportsText(result);
+    formatUnusedExportsText({ root: "src", count: 0, exports: [] });
+
+    assertEquals(
+      capturedOutput,
+      '2 unused exports in "src":\n' +
+        "  src/util.ts:3 Options (type)\n" +
+        '  src/index.ts:7 helper (re-exported from "./helper")\n' +
+        'No unused exports in "src"\n',
+    );
+  } finally {
+    // Restore console.log
+    console.log = originalConsoleLog;
+  }
+});
@@ -0,0 +1,162 @@
+import { assertEquals } from "https://deno.land/std@0.224.0/assert/mod.ts";
+import { join } from "https://deno.land/std@0.224.0/path/mod.ts";
+import {
+  type PackageJson,
+  parsePackageSpecifier,
+  parseRegistrySpecifier,
+  resolvePackageImports,
+  resolvePackagePath,
+  resolveSubpathMap,
+} from "../src/packages.ts";
+
+Deno.test("should split bare specifiers into package name and subpath", () => {
+  assertEquals(parsePackageSpecifier("react"), { name: "react", subpath: "." });
+  assertEquals(parsePackageSpecifier("@scope/pkg/utils/a.js"), {
+    name: "@scope/pkg",
+    subpath: "./utils/a.js",
+  });
+  assertEquals(parsePackageSpecifier("./local"), null);
+  assertEquals(parsePackageSpecifier("node:fs"), null);
+  assertEquals(parsePackageSpecifier("#internal"), null);
+});
+
+Deno.test("should match exports conditions in order", () => {
+  const exports = {
+    ".": {
+      types: "./index.d.ts",
+      browser: { import: "./browser.mjs", default: "./browser.cjs" },
+      import: "./index.mjs",
+      require: "./index.cjs",
+    },
+    "./internal/*": null,
+  };
+
+  assertEquals(
+    resolveSubpathMap(exports, ".", ["node", "import"]),
+    "./index.mjs",
+  );
+  assertEquals(
+    resolveSubpathMap(exports, ".", ["node", "require"]),
+    "./index.cjs",
+  );
+  assertEquals(
+    resolveSubpathMap(exports, ".", ["browser", "require"]),
+    "./browser.cjs",
+  );
+  assertEquals(
+    resolveSubpathMap(exports, ".", ["node", "import", "types"]),
+    "./index.d.ts",
+  );
+  assertEquals(resolveSubpathMap(exports, "./internal/x.js", ["import"]), null);
+  assertEquals(resolveSubpathMap(exports, "./missing", ["import"]), null);
+});
+
+Deno.test("should expand the most specific exports pattern", () => {
+  const exports = {
+    "./*": "./src/*.js",
+    "./features/*.js": ["./lib/features/*.js"],
+    "./legacy/": "./old/",
+  };
+
+  assertEquals(resolveSubpathMap(exports, "./a/b", []), "./src/a/b.js");
+  assertEquals(
+    resolveSubpathMap(exports, "./features/x.js", []),
+    "./lib/features/x.js",
+  );
+  assertEquals(resolveSubpathMap(exports, "./legacy/y.js", []), "./old/y.js");
+});
+
+Deno.test("should fall back to entry point fields without exports", () => {
+  const directory = "/pkg";
+  const packageJson: PackageJson = {
+    main: "./lib/index.js",
+    module: "./es/index.js",
+    types: "./types/index.d.ts",
+    browser: { "./lib/node.js": "./lib/browser.js", "./lib/fs.js": false },
+  };
+
+  assertEquals(
+    resolvePackagePath(directory, packageJson, ".", ["node", "require"]),
+    join(directory, "lib/index.js"),
+  );
+  assertEquals(
+    resolvePackagePath(directory, packageJson, ".", ["node", "import"]),
+    join(directory, "es/index.js"),
+  );
+  assertEquals(
+    resolvePackagePath(directory, packageJson, ".", ["import", "types"]),
+    join(directory, "types/index.d.ts"),
+  );
+  assertEquals(
+    resolvePackagePath(directory, packageJson, "./lib/node", ["browser"]),
+    join(directory, "lib/browser.js"),
+  );
+  assertEquals(
+    resolvePackagePath(directory, packageJson, "./lib/fs.js", ["browser"]),
+    null,
+  );
+  assertEquals(
+    resolvePackagePath(directory, { browser: "./b.js" }, ".", ["browser"]),
+    join(directory, "b.js"),
+  );
+});
+
+Deno.test("should resolve subpath imports of the nearest package.json", async () => {
+  const tempDir = await Deno.makeTempDir();
+
+  try {
+    await Deno.writeTextFile(
+      join(tempDir, "package.json"),
+      JSON.stringify({
+        imports: {
+          "#db/*": "./src/db/*.ts",
+          "#config": {
+            browser: "./src/config.browser.ts",
+            default: "./src/config.ts",
+          },
+          "#dep": "dep/feature",
+        },
+      }),
+    );
+    await Deno.mkdir(join(tempDir, "node_modules/dep"), { recursive: true });
+    await Deno.writeTextFile(
+      join(tempDir, "node_modules/dep/package.json"),
+      JSON.stringify({ exports: { "./feature": "./feature.js" } }),
+    );
+    await Deno.mkdir(join(tempDir, "src/routes"), { recursive: true });
+    const importer = join(tempDir, "src/routes/index.ts");
+    const realDir = await Deno.realPath(tempDir);
+
+    assertEquals(
+      resolvePackageImports(importer, "#db/client", ["node", "import"]),
+      join(tempDir, "src/db/client.ts"),
+    );
+    assertEquals(
+      resolvePackageImports(importer, "#config", ["browser", "import"]),
+      join(tempDir, "src/config.browser.ts"),
+    );
+    assertEquals(
+      resolvePackageImports(importer, "#dep", ["node", "import"]),
+      join(realDir, "node_modules/dep/feature.js"),
+    );
+    assertEquals(resolvePackageImports(importer, "#missing", ["import"]), null);
+  } finally {
+    await Deno.remove(tempDir, { recursive: true });
+  }
+});
+
+Deno.test("should parse npm: and jsr: specifiers", () => {
+  assertEquals(parseRegistrySpecifier("npm:preact"), {
+    registry: "npm",
+    name: "preact",
+    subpath: ".",
+  });
+  assertEquals(parseRegistrySpecifier("jsr:@std/path@^1.0.0/join"), {
+    registry: "jsr",
+    name: "@std/path",
+    version: "^1.0.0",
+    subpath: "./join",
+  });
+  assertEquals(parseRegistrySpecifier("preact"), null);
+  assertEquals(parseRegistrySpecifier("node:fs"), null);
+});
@@ -0,0 +1,302 @@
+import { assertEquals } from "https://deno.land/std@0.224.0/assert/mod.ts";
+import {
+  bindsSymbol,
+  extractExports,
+  extractImports,
+  importedSymbols,
+} from "../src/parser.ts";
+
+Deno.test("should extract imports without semicolons", () => {
+  const imports = extractImports(
+    'import a from "./a"\nimport { b } from "./b"\nimport "./c"\n',
+  );
+
+  assertEquals(imports.map((imp) => imp.module), ["./a", "./b", "./c"]);
+});
+
+Deno.test("should extract multi-line imports", () => {
+  const imports = extractImports(
+    'import * as ns\n  from "./ns.ts"\nimport {\n  a,\n  b as c,\n} from "./ab.ts"\n',
+  );
+
+  assertEquals(imports.length, 2);
+  assertEquals(imports[0].module, "./ns.ts");
+  assertEquals(imports[1].module, "./ab.ts");
+});
+
+Deno.test("should report line and column of the specifier", () => {
+  const imports = extractImports('const x = 1\n  import y from "./y"\n');
+
+  assertEquals(imports[0].lineNumber, 2);
+  assertEquals(imports[0].column, 17);
+});
+
+Deno.test("should ignore imports in comments and strings", () => {
+  const imports = extractImports(
+    [
+      '// import a from "./a"',
+      '/* const b = require("./b") */',
+      "const c = \"require('./c')\"",
+      'const d = /import d from "\\.\\/d"/',
+      'const e = `require("./e")`',
+    ].join("\n"),
+  );
+
+  assertEquals(imports.length, 0);
+});
+
+Deno.test("should extract TypeScript import forms", () => {
+  const imports = extractImports(
+    [
+      'import type { A } from "./a"',
+      'import type B from "./b"',
+      'import type from "./c"',
+      'import d = require("./d")',
+    ].join("\n"),
+  );
+
+  assertEquals(imports.map((imp) => imp.module), ["./a", "./b", "./c", "./d"]);
+  assertEquals(imports[3].type, "commonjs");
+});
+
+Deno.test("should extract requires and dynamic imports", () => {
+  const imports = extractImports(
+    'const a = require("./a")\nconst b = await import("./b")\nobj.require("./c")\n',
+  );
+
+  assertEquals(imports.length, 2);
+  assertEquals(imports[0].type, "commonjs");
+  assertEquals(imports[0].isDynamic, false);
+  assertEquals(imports[1].module, "./b");
+  assertEquals(imports[1].isDynamic, true);
+});
+
+Deno.test("should extract re-exports as a distinct edge kind", () => {
+  const imports = extractImports(
+    [
+      'import a from "./a"',
+      'export * from "./b"',
+      'export { c, d as e } from "./c"',
+      'export * as ns from "./d"',
+      'export type { T } from "./t"',
+      "export { local }",
+      "export const x = 1",
+    ].join("\n"),
+  );
+
+  assertEquals(imports.map((imp) => [imp.module, imp.edge]), [
+    ["./a", "import"],
+    ["./b", "reexport"],
+    ["./c", "reexport"],
+    ["./d", "reexport"],
+    ["./t", "reexport"],
+  ]);
+});
+
+Deno.test("should capture imported bindings", () => {
+  const imports = extractImports(
+    [
+      'import A, { b, c as d, type E } from "./a"',
+      'import * as ns from "./ns"',
+      'import type F from "./f"',
+      'const { g, h: i } = require("./g")',
+      'const j = require("./j").k',
+      "ns.used()",
+      'ns["alsoUsed"]',
+    ].join("\n"),
+  );
+
+  assertEquals(imports[0].bindings, [
+    { kind: "default", imported: "default", local: "A", isType: false },
+    { kind: "named", imported: "b", local: "b", isType: false },
+    { kind: "named", imported: "c", local: "d", isType: false },
+    { kind: "named", imported: "E", local: "E", isType: true },
+  ]);
+  assertEquals(imports[1].bindings[0].kind, "namespace");
+  assertEquals(imports[1].bindings[0].members, ["used", "alsoUsed"]);
+  assertEquals(imports[2].bindings[0].isType, true);
+  assertEquals(imports[3].bindings.map((b) => [b.imported, b.local]), [
+    ["g", "g"],
+    ["h", "i"],
+  ]);
+  assertEquals(importedSymbols(imports[4]), ["k"]);
+});
+
+Deno.test("should match symbols through namespace member access", () => {
+  const [namespace, named] = extractImports(
+    'import * as out from "./output"\nimport { other } from "./output"\nout.formatText()\n',
+  );
+
+  assertEquals(bindsSymbol(namespace, "formatText"), true);
+  assertEquals(bindsSymbol(namespace, "formatJson"), false);
+  assertEquals(bindsSymbol(named, "formatText"), false);
+  assertEquals(importedSymbols(namespace), ["formatText"]);
+});
+
+Deno.test("should match every symbol of a namespace used as a whole", () => {
+  const [namespace, required, accessed] = extractImports(
+    [
+      'import * as ns from "./m"',
+      'const m = require("./m")',
+      'import * as only from "./m"',
+      "ns.a",
+      "use(ns)",
+      "only.a",
+      "const copy = { ...m }",
+    ].join("\n"),
+  );
+
+  assertEquals(namespace.bindings[0].members, ["*"]);
+  assertEquals(bindsSymbol(namespace, "b"), true);
+  assertEquals(importedSymbols(namespace), ["*"]);
+  assertEquals(importedSymbols(required), ["*"]);
+  assertEquals(bindsSymbol(accessed, "b"), false);
+  assertEquals(importedSymbols(accessed), ["a"]);
+});
+
+Deno.test("should classify imports as runtime, type-only, side-effect or mixed", () => {
+  const imports = extractImports(
+    [
+      'import { a } from "./a"',
+      'import type { B } from "./b"',
+      'import { type C } from "./c"',
+      'import type D from "./d"',
+      'import { type E, f } from "./e"',
+      'import "./g"',
+      'export type { H } from "./h"',
+      'const i = require("./i")',
+    ].join("\n"),
+  );
+
+  assertEquals(imports.map((imp) => imp.importKind), [
+    "runtime",
+    "type-only",
+    "type-only",
+    "type-only",
+    "mixed",
+    "side-effect",
+    "type-only",
+    "runtime",
+  ]);
+});
+
+Deno.test("should classify import types as type-only", () => {
+  const imports = extractImports(
+    [
+      'type B = typeof import("./b.ts");',
+      'let y: import("./c.ts").Foo;',
+      'let z: Promise<import("./d.ts")>;',
+      'const e = await import("./e.ts");',
+      'import("./f.ts").then((f) => f.run());',
+    ].join("\n"),
+  );
+
+  assertEquals(
+    imports.map((imp) => [imp.module, imp.importKind, imp.isDynamic]),
+    [
+      ["./b.ts", "type-only", false],
+      ["./c.ts", "type-only", false],
+      ["./d.ts", "type-only", false],
+      ["./e.ts", "runtime", true],
+      ["./f.ts", "runtime", true],
+    ],
+  );
+});
+
+Deno.test("should turn computed dynamic imports into patterns", () => {
+  const imports = extractImports(
+    [
+      "const page = await import(`./locale/${lang}.ts`)",
+      'import("./pages/" + name + ".tsx")',
+      'import("./literal.ts")',
+      "import(specifier)",
+    ].join("\n"),
+  );
+
+  assertEquals(imports.map((imp) => [imp.module, imp.isPattern]), [
+    ["./locale/*.ts", true],
+    ["./pages/*.tsx", true],
+    ["./literal.ts", false],
+  ]);
+  assertEquals(imports.every((imp) => imp.isDynamic), true);
+});
+
+Deno.test("should extract module URL references", () => {
+  const imports = extractImports(
+    [
+      'const worker = new Worker(new URL("./worker.ts", import.meta.url), {',
+      '  type: "module",',
+      "})",
+      'const shared = new SharedWorker("./shared.js")',
+      'const href = import.meta.resolve("./asset.ts")',
+      'const other = new URL("./not-relative-to-module", location.href)',
+    ].join("\n"),
+  );
+
+  assertEquals(imports.map((imp) => [imp.module, imp.edge]), [
+    ["./worker.ts", "url"],
+    ["./shared.js", "url"],
+    ["./asset.ts", "url"],
+  ]);
+  assertEquals(imports[0].lineNumber, 1);
+});
+
+Deno.test("should extract test-framework mocks and path references", () => {
+  const imports = extractImports(
+    [
+      'jest.mock("../api", () => ({ fetch: jest.fn() }))',
+      "vi.mock('./store')",
+      'const actual = await vi.importActual<typeof import("./utils")>("./utils")',
+      'mock.module("./db.ts", { namedExports: {} })',
+      'const path = require.resolve("./fixture.json")',
+      'jest.fn("./not-a-path")',
+      "vi.mock(name)",
+    ].join("\n"),
+  );
+
+  assertEquals(imports.map((imp) => [imp.module, imp.edge]), [
+    ["../api", "mock"],
+    ["./store", "mock"],
+    ["./utils", "import"],
+    ["./utils", "mock"],
+    ["./db.ts", "mock"],
+    ["./fixture.json", "mock"],
+  ]);
+  assertEquals(imports[5].type, "commonjs");
+});
+
+Deno.test("should extract declarations, export lists and re-exports", () => {
+  const exports = extractExports(
+    [
+      "export const a = f(1, 2), b: Map<string, number> = new Map()",
+      "export const { c, d: e = 1, ...rest } = object;",
+      "export async function g() {}",
+      "export default class {}",
+      "export type T = string;",
+      "export { a as aa };",
+      'export { h as default } from "./h";',
+      'export * from "./star";',
+      'export * as ns from "./ns";',
+      "namespace N { export const inner = 1; }",
+    ].join("\n"),
+  );
+
+  assertEquals(
+    exports.map((exp) => [exp.name, exp.lineNumber, exp.module, exp.imported]),
+    [
+      ["a", 1, undefined, undefined],
+      ["b", 1, undefined, undefined],
+      ["c", 2, undefined, undefined],
+      ["e", 2, undefined, undefined],
+      ["rest", 2, undefined, undefined],
+      ["g", 3, undefined, undefined],
+      ["default", 4, undefined, undefined],
+      ["T", 5, undefined, undefined],
+      ["aa", 6, undefined, undefined],
+      ["default", 7, "./h", "h"],
+      ["*", 8, "./star", "*"],
+      ["ns", 9, "./ns", "*"],
+    ],
+  );
+  assertEquals(exports[7].isType, true);
+});
@@ -0,0 +1,38 @@
+import { assertEquals } from "https://deno.land/std@0.224.0/assert/mod.ts";
+import { join } from "https://deno.land/std@0.224.0/path/mod.ts";
+import { canonicalPath, isWithinDirectory } from "../src/paths.ts";
+
+Deno.test("should compare directories by whole path segments", () => {
+  assertEquals(isWithinDirectory("/repo/src/util", "/repo/src/util"), true);
+  assertEquals(
+    isWithinDirectory("/repo/src/util/a.ts", "/repo/src/util"),
+    true,
+  );
+  assertEquals(
+    isWithinDirectory("/repo/src/utils2/a.ts", "/repo/src/util"),
+    false,
+  );
+  assertEquals(isWithinDirectory("/repo/src/a.ts", "/"), true);
+});
+
+Deno.test("should canonicalize paths through symbolic links", async () => {
+  const tempDir = await Deno.realPath(await Deno.makeTempDir());
+
+  try {
+    await Deno.mkdir(join(tempDir, "store/pkg"), { recursive: true });
+    await Deno.writeTextFile(join(tempDir, "store/pkg/index.js"), "");
+    await Deno.symlink(join(tempDir, "store/pkg"), join(tempDir, "linked"));
+
+    assertEquals(
+      canonicalPath(join(tempDir, "linked/index.js")),
+      join(tempDir, "store/pkg/index.js"),
+    );
+    // Missing paths stay as they are
+    assertEquals(
+      canonicalPath(join(tempDir, "linked/../missing.js")),
+      join(tempDir, "missing.js"),
+    );
+  } finally {
+    await Deno.remove(tempDir, { recursive: true });
+  }
+});
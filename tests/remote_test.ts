@@ -0,0 +1,71 @@
+import { assertEquals } from "https://deno.land/std@0.224.0/assert/mod.ts";
+import { dirname } from "https://deno.land/std@0.224.0/path/mod.ts";
+import {
+  denoCachePath,
+  findRemoteChain,
+  matchesUrlTarget,
+} from "../src/remote.ts";
+
+Deno.test("should match URL targets and URL prefixes", () => {
+  const url = "https://deno.land/std@0.224.0/path/mod.ts";
+
+  assertEquals(matchesUrlTarget(url, url), true);
+  assertEquals(matchesUrlTarget(url, "https://deno.land/std@0.224.0"), true);
+  assertEquals(matchesUrlTarget(url, "https://deno.land/std@0.224.0/"), true);
+  assertEquals(matchesUrlTarget(url, "https://deno.land/std@0.22"), false);
+});
+
+Deno.test("should locate remote modules in the Deno cache", async () => {
+  assertEquals(
+    await denoCachePath("https://deno.land/std@0.224.0/path/mod.ts", "/deno"),
+    "/deno/remote/https/deno.land/" +
+      "6c329e0015ce72df68a20409395f8478c74183f8fd22b0b789de7b593feee6fa",
+  );
+  assertEquals(
+    dirname(await denoCachePath("http://localhost:4507/mod.ts", "/deno")),
+    "/deno/remote/http/localhost_PORT4507",
+  );
+});
+
+Deno.test("should follow imports between cached remote modules", async () => {
+  const denoDir = await Deno.makeTempDir();
+  const cache = async (url: string, content: string) => {
+    const path = await denoCachePath(url, denoDir);
+    await Deno.mkdir(dirname(path), { recursive: true });
+    await Deno.writeTextFile(path, content);
+  };
+
+  try {
+    await cache(
+      "https://example.com/lib/mod.ts",
+      'export * from "./a.ts";\nexport * from "./b.ts";\n',
+    );
+    await cache("https://example.com/lib/a.ts", 'import "./mod.ts";\n');
+    await cache(
+      "https://example.com/lib/b.ts",
+      'import "https://cdn.example.com/util@1.0.0/mod.ts";\n',
+    );
+
+    assertEquals(
+      await findRemoteChain(
+        "https://example.com/lib/mod.ts",
+        (url) => matchesUrlTarget(url, "https://cdn.example.com/util@1.0.0"),
+        denoDir,
+      ),
+      [
+        "https://example.com/lib/b.ts",
+        "https://cdn.example.com/util@1.0.0/mod.ts",
+      ],
+    );
+    assertEquals(
+      await findRemoteChain(
+        "https://example.com/lib/a.ts",
+        (url) => url === "https://example.com/missing.ts",
+        denoDir,
+      ),
+      null,
+    );
+  } finally {
+    await Deno.remove(denoDir, { recursive: true });
+  }
+});
@@ -1,12 +1,20 @@
 import { assertEquals } from "https://deno.land/std@0.224.0/assert/mod.ts";
 import {
+  explainImportPath,
+  findDirectoryImporters,
   findImporters,
   loadImportMap,
   loadTsConfig,
   parseImports,
   resolveImportPath,
+  resolveRegistryPackage,
 } from "../src/resolver.ts";
-import { join, resolve } from "https://deno.land/std@0.224.0/path/mod.ts";
+import {
+  dirname,
+  join,
+  resolve,
+} from "https://deno.land/std@0.224.0/path/mod.ts";
+import { denoCachePath } from "../src/remote.ts";
 
 Deno.test("should parse ES6 imports correctly", async () => {
   const fixturePath = resolve("tests/fixtures/component1.tsx");
@@ -70,6 +78,31 @@ Deno.test("should resolve tsconfig paths correctly", () => {
   assertEquals(resolved, resolve("tests/fixtures/button.tsx"));
 });
 
+Deno.test("should not apply tsconfig paths to relative imports", async () => {
+  const tempDir = await Deno.makeTempDir();
+
+  try {
+    await Deno.mkdir(join(tempDir, "vendor"));
+    await Deno.writeTextFile(join(tempDir, "button.ts"), "");
+    await Deno.writeTextFile(join(tempDir, "vendor/button.ts"), "");
+    const tsConfig = {
+      compilerOptions: { baseUrl: ".", paths: { "*": ["./vendor/*"] } },
+    };
+
+    assertEquals(
+      resolveImportPath(
+        join(tempDir, "app.ts"),
+        "./button.ts",
+        undefined,
+        tsConfig,
+      ),
+      join(tempDir, "button.ts"),
+    );
+  } finally {
+    await Deno.remove(tempDir, { recursive: true });
+  }
+});
+
 Deno.test("should handle non-existent files", async () => {
   let errorOccurred = false;
   try {
@@ -159,3 +192,811 @@ Deno.test("should parse extensionless CommonJS requires correctly", async () =>
   assertEquals(imports[1].module, "./button");
   assertEquals(imports[1].isDynamic, false);
 });
+
+Deno.test("should follow barrel files when requested", async () => {
+  const tempDir = await Deno.makeTempDir();
+
+  try {
+    await Deno.mkdir(join(tempDir, "lib"));
+    await Deno.writeTextFile(
+      join(tempDir, "lib/button.ts"),
+      "export const Button = 1;\n",
+    );
+    await Deno.writeTextFile(
+      join(tempDir, "lib/index.ts"),
+      'export * from "./button.ts";\n',
+    );
+    await Deno.writeTextFile(
+      join(tempDir, "index.ts"),
+      'export { Button } from "./lib/index.ts";\n',
+    );
+    await Deno.writeTextFile(
+      join(tempDir, "app.ts"),
+      'import { Button } from "./index.ts";\n',
+    );
+    const files = ["lib/button.ts", "lib/index.ts", "index.ts", "app.ts"].map(
+      (file) => join(tempDir, file),
+    );
+    const target = join(tempDir, "lib/button.ts");
+
+    const direct = await findImporters(target, files, tempDir);
+    assertEquals(direct.map((imp) => imp.sourceFile), [
+      join(tempDir, "lib/index.ts"),
+    ]);
+    assertEquals(direct[0].edge, "reexport");
+
+    const followed = await findImporters(target, files, tempDir, {
+      followBarrels: true,
+    });
+    const app = followed.find((imp) =>
+      imp.sourceFile === join(tempDir, "app.ts")
+    );
+    assertEquals(followed.length, 3);
+    assertEquals(app?.via, [
+      join(tempDir, "index.ts"),
+      join(tempDir, "lib/index.ts"),
+    ]);
+  } finally {
+    await Deno.remove(tempDir, { recursive: true });
+  }
+});
+
+Deno.test("should filter importers by symbol", async () => {
+  const targetFile = resolve("tests/fixtures/button.tsx");
+  const files = [
+    resolve("tests/fixtures/component1.tsx"),
+    resolve("tests/fixtures/component2.tsx"),
+    resolve("tests/fixtures/component3.tsx"),
+    resolve("tests/fixtures/component6.js"),
+  ];
+  const rootPath = resolve("tests/fixtures");
+
+  const importers = await findImporters(targetFile, files, rootPath, {
+    symbol: "SecondaryButton",
+  });
+
+  assertEquals(importers.map((imp) => imp.sourceFile), [
+    resolve("tests/fixtures/component2.tsx"),
+    resolve("tests/fixtures/component6.js"),
+  ]);
+  assertEquals(importers[0].symbols, ["SecondaryButton"]);
+
+  // component3.tsx uses the default export through `Button.default`
+  const defaultImporters = await findImporters(targetFile, files, rootPath, {
+    symbol: "default",
+  });
+  assertEquals(defaultImporters.map((imp) => imp.sourceFile), [
+    resolve("tests/fixtures/component1.tsx"),
+    resolve("tests/fixtures/component3.tsx"),
+  ]);
+});
+
+Deno.test("should filter importers by import kind", async () => {
+  const tempDir = await Deno.makeTempDir();
+
+  try {
+    await Deno.writeTextFile(
+      join(tempDir, "types.ts"),
+      "export type T = string;\nexport const v = 1;\n",
+    );
+    await Deno.writeTextFile(
+      join(tempDir, "typed.ts"),
+      'import type { T } from "./types.ts";\n',
+    );
+    await Deno.writeTextFile(
+      join(tempDir, "valued.ts"),
+      'import { v } from "./types.ts";\n',
+    );
+    await Deno.writeTextFile(
+      join(tempDir, "mixed.ts"),
+      'import { type T, v } from "./types.ts";\n',
+    );
+    const files = ["typed.ts", "valued.ts", "mixed.ts"].map((file) =>
+      join(tempDir, file)
+    );
+    const target = join(tempDir, "types.ts");
+
+    const runtime = await findImporters(target, files, tempDir, {
+      runtimeOnly: true,
+    });
+    assertEquals(runtime.map((imp) => imp.importKind), ["runtime", "mixed"]);
+
+    const types = await findImporters(target, files, tempDir, {
+      typesOnly: true,
+    });
+    assertEquals(types.map((imp) => imp.sourceFile), [
+      join(tempDir, "typed.ts"),
+    ]);
+
+    const directory = await findDirectoryImporters(
+      tempDir,
+      [
+        resolve("tests/fixtures/component1.tsx"),
+      ],
+      tempDir,
+      { typesOnly: true },
+    );
+    assertEquals(directory.count, 0);
+  } finally {
+    await Deno.remove(tempDir, { recursive: true });
+  }
+});
+
+Deno.test("should include dynamic imports when requested", async () => {
+  const tempDir = await Deno.makeTempDir();
+
+  try {
+    await Deno.mkdir(join(tempDir, "locale"));
+    await Deno.writeTextFile(join(tempDir, "locale/en.ts"), "export {};\n");
+    await Deno.writeTextFile(join(tempDir, "locale/fr.ts"), "export {};\n");
+    await Deno.writeTextFile(
+      join(tempDir, "lazy.ts"),
+      "const messages = await import(`./locale/${lang}.ts`);\n",
+    );
+    await Deno.writeTextFile(
+      join(tempDir, "literal.ts"),
+      'const en = await import("./locale/en.ts");\n',
+    );
+    const files = ["locale/en.ts", "locale/fr.ts", "lazy.ts", "literal.ts"]
+      .map((file) => join(tempDir, file));
+    const target = join(tempDir, "locale/fr.ts");
+
+    assertEquals((await findImporters(target, files, tempDir)).length, 0);
+
+    const importers = await findImporters(target, files, tempDir, {
+      includeDynamic: true,
+    });
+    assertEquals(importers.length, 1);
+    assertEquals(importers[0].sourceFile, join(tempDir, "lazy.ts"));
+    assertEquals(importers[0].isDynamic, true);
+    assertEquals(importers[0].possible, true);
+
+    const literal = await findImporters(
+      join(tempDir, "locale/en.ts"),
+      files,
+      tempDir,
+      { includeDynamic: true },
+    );
+    assertEquals(
+      literal.map((imp) => [imp.sourceFile, imp.possible ?? false]),
+      [[join(tempDir, "lazy.ts"), true], [join(tempDir, "literal.ts"), false]],
+    );
+
+    const directory = await findDirectoryImporters(
+      join(tempDir, "locale"),
+      files,
+      tempDir,
+      { includeDynamic: true },
+    );
+    assertEquals(directory.groups.map((group) => group.importedFile), [
+      "en.ts",
+      "fr.ts",
+    ]);
+  } finally {
+    await Deno.remove(tempDir, { recursive: true });
+  }
+});
+
+Deno.test("should report module URL references as importers", async () => {
+  const tempDir = await Deno.makeTempDir();
+
+  try {
+    await Deno.writeTextFile(join(tempDir, "worker.ts"), "self.close();\n");
+    await Deno.writeTextFile(
+      join(tempDir, "main.ts"),
+      'new Worker(new URL("./worker", import.meta.url), { type: "module" });\n',
+    );
+    const files = [join(tempDir, "worker.ts"), join(tempDir, "main.ts")];
+
+    const importers = await findImporters(
+      join(tempDir, "worker.ts"),
+      files,
+      tempDir,
+    );
+    assertEquals(importers.length, 1);
+    assertEquals(importers[0].sourceFile, join(tempDir, "main.ts"));
+    assertEquals(importers[0].edge, "url");
+  } finally {
+    await Deno.remove(tempDir, { recursive: true });
+  }
+});
+
+Deno.test("should find importers of single-file components", async () => {
+  const tempDir = await Deno.makeTempDir();
+
+  try {
+    await Deno.writeTextFile(
+      join(tempDir, "Button.vue"),
+      "<template><button /></template>\n",
+    );
+    await Deno.writeTextFile(
+      join(tempDir, "App.vue"),
+      '<template><Button /></template>\n<script setup>\nimport Button from "./Button"\n</script>\n',
+    );
+    const files = [join(tempDir, "Button.vue"), join(tempDir, "App.vue")];
+
+    const importers = await findImporters(
+      join(tempDir, "Button.vue"),
+      files,
+      tempDir,
+    );
+    assertEquals(importers.length, 1);
+    assertEquals(importers[0].sourceFile, join(tempDir, "App.vue"));
+    assertEquals(importers[0].lineNumber, 3);
+  } finally {
+    await Deno.remove(tempDir, { recursive: true });
+  }
+});
+
+Deno.test("should resolve Sass partials and stylesheet assets", async () => {
+  const tempDir = await Deno.makeTempDir();
+
+  try {
+    await Deno.mkdir(join(tempDir, "theme"));
+    await Deno.mkdir(join(tempDir, "fonts"));
+    await Deno.writeTextFile(join(tempDir, "_variables.scss"), "$a: 1;\n");
+    await Deno.writeTextFile(join(tempDir, "theme/_index.scss"), "$b: 2;\n");
+    await Deno.writeTextFile(join(tempDir, "fonts/icons.woff2"), "");
+    await Deno.writeTextFile(
+      join(tempDir, "main.scss"),
+      '@use "variables";\n@use "theme";\n@font-face { src: url(fonts/icons.woff2); }\n',
+    );
+    await Deno.writeTextFile(
+      join(tempDir, "app.ts"),
+      'import "./main.scss";\n',
+    );
+    const importer = join(tempDir, "main.scss");
+
+    assertEquals(
+      resolveImportPath(importer, "variables"),
+      join(tempDir, "_variables.scss"),
+    );
+    assertEquals(
+      resolveImportPath(importer, "theme"),
+      join(tempDir, "theme/_index.scss"),
+    );
+    assertEquals(resolveImportPath(importer, "sass:math"), null);
+
+    const files = [importer, join(tempDir, "app.ts")];
+    const fontImporters = await findImporters(
+      join(tempDir, "fonts/icons.woff2"),
+      files,
+      tempDir,
+    );
+    assertEquals(fontImporters.map((imp) => [imp.sourceFile, imp.edge]), [
+      [importer, "url"],
+    ]);
+    const styleImporters = await findImporters(importer, files, tempDir);
+    assertEquals(styleImporters.map((imp) => imp.sourceFile), [
+      join(tempDir, "app.ts"),
+    ]);
+  } finally {
+    await Deno.remove(tempDir, { recursive: true });
+  }
+});
+
+Deno.test("should report HTML pages as importers", async () => {
+  const tempDir = await Deno.makeTempDir();
+
+  try {
+    await Deno.mkdir(join(tempDir, "src"));
+    await Deno.writeTextFile(join(tempDir, "src/main.ts"), "export {};\n");
+    await Deno.writeTextFile(
+      join(tempDir, "index.html"),
+      '<script type="module" src="/src/main.ts"></script>\n',
+    );
+    const files = [join(tempDir, "src/main.ts"), join(tempDir, "index.html")];
+
+    const importers = await findImporters(
+      join(tempDir, "src/main.ts"),
+      files,
+      tempDir,
+    );
+    assertEquals(importers.map((imp) => [imp.sourceFile, imp.edge]), [
+      [join(tempDir, "index.html"), "html"],
+    ]);
+  } finally {
+    await Deno.remove(tempDir, { recursive: true });
+  }
+});
+
+Deno.test("should report mocks unless excluded", async () => {
+  const tempDir = await Deno.makeTempDir();
+
+  try {
+    await Deno.writeTextFile(join(tempDir, "api.ts"), "export {};\n");
+    await Deno.writeTextFile(
+      join(tempDir, "app_test.ts"),
+      'jest.mock("./api");\n',
+    );
+    const files = [join(tempDir, "api.ts"), join(tempDir, "app_test.ts")];
+    const target = join(tempDir, "api.ts");
+
+    const importers = await findImporters(target, files, tempDir);
+    assertEquals(importers.map((imp) => [imp.sourceFile, imp.edge]), [
+      [join(tempDir, "app_test.ts"), "mock"],
+    ]);
+
+    const excluded = await findImporters(target, files, tempDir, {
+      excludeMocks: true,
+    });
+    assertEquals(excluded.length, 0);
+  } finally {
+    await Deno.remove(tempDir, { recursive: true });
+  }
+});
+
+Deno.test("should resolve bare specifiers through node_modules", async () => {
+  const tempDir = await Deno.makeTempDir();
+
+  try {
+    const packageDir = join(tempDir, "node_modules/ui");
+    await Deno.mkdir(join(packageDir, "dist"), { recursive: true });
+    await Deno.writeTextFile(
+      join(packageDir, "package.json"),
+      JSON.stringify({
+        name: "ui",
+        exports: {
+          ".": { browser: "./dist/browser.js", default: "./dist/index.js" },
+          "./button": "./dist/button.js",
+        },
+      }),
+    );
+    for (const file of ["index.js", "browser.js", "button.js"]) {
+      await Deno.writeTextFile(join(packageDir, "dist", file), "");
+    }
+    // A linked package resolves to its real location
+    await Deno.mkdir(join(tempDir, "packages/utils"), { recursive: true });
+    await Deno.writeTextFile(
+      join(tempDir, "packages/utils/package.json"),
+      JSON.stringify({ name: "utils", main: "main" }),
+    );
+    await Deno.writeTextFile(join(tempDir, "packages/utils/main.ts"), "");
+    await Deno.symlink(
+      join(tempDir, "packages/utils"),
+      join(tempDir, "node_modules/utils"),
+    );
+    await Deno.mkdir(join(tempDir, "src"));
+    const importer = join(tempDir, "src/app.ts");
+    await Deno.writeTextFile(importer, 'import "ui/button";\n');
+    const realDir = await Deno.realPath(tempDir);
+
+    assertEquals(
+      resolveImportPath(importer, "ui"),
+      join(realDir, "node_modules/ui/dist/index.js"),
+    );
+    assertEquals(
+      resolveImportPath(importer, "ui", null, null, {
+        conditions: ["browser"],
+      }),
+      join(realDir, "node_modules/ui/dist/browser.js"),
+    );
+    assertEquals(resolveImportPath(importer, "ui/dist/index.js"), null);
+    assertEquals(
+      resolveImportPath(importer, "utils"),
+      join(realDir, "packages/utils/main.ts"),
+    );
+    assertEquals(resolveImportPath(importer, "missing"), null);
+
+    const importers = await findImporters(
+      join(realDir, "node_modules/ui/dist/button.js"),
+      [importer],
+      tempDir,
+    );
+    assertEquals(importers.map((imp) => imp.sourceFile), [importer]);
+  } finally {
+    await Deno.remove(tempDir, { recursive: true });
+  }
+});
+
+Deno.test("should find importers through package.json subpath imports", async () => {
+  const tempDir = await Deno.makeTempDir();
+
+  try {
+    await Deno.writeTextFile(
+      join(tempDir, "package.json"),
+      JSON.stringify({ imports: { "#db/*": "./src/db/*.ts" } }),
+    );
+    await Deno.mkdir(join(tempDir, "src/db"), { recursive: true });
+    await Deno.writeTextFile(join(tempDir, "src/db/client.ts"), "");
+    await Deno.writeTextFile(
+      join(tempDir, "src/app.ts"),
+      'import db from "#db/client";\n',
+    );
+
+    const importers = await findImporters(
+      join(tempDir, "src/db/client.ts"),
+      [join(tempDir, "src/app.ts")],
+      tempDir,
+    );
+    assertEquals(importers.map((imp) => imp.sourceFile), [
+      join(tempDir, "src/app.ts"),
+    ]);
+  } finally {
+    await Deno.remove(tempDir, { recursive: true });
+  }
+});
+
+Deno.test("should resolve through tsconfig path fallbacks and rootDirs", async () => {
+  const tempDir = await Deno.makeTempDir();
+
+  try {
+    await Deno.mkdir(join(tempDir, "src"));
+    await Deno.mkdir(join(tempDir, "generated"));
+    await Deno.writeTextFile(
+      join(tempDir, "tsconfig.json"),
+      `{
+        // Paths without baseUrl are relative to the tsconfig
+        "compilerOptions": {
+          "paths": { "@/*": ["./src/*", "./generated/*"] },
+          "rootDirs": ["src", "generated"],
+        },
+      }`,
+    );
+    await Deno.writeTextFile(join(tempDir, "generated/schema.ts"), "");
+    await Deno.writeTextFile(
+      join(tempDir, "src/app.ts"),
+      'import "@/schema";\nimport "./schema";\n',
+    );
+
+    const target = join(tempDir, "generated/schema.ts");
+    const importers = await findImporters(
+      target,
+      [join(tempDir, "src/app.ts"), target],
+      tempDir,
+    );
+
+    assertEquals(importers.map((imp) => [imp.importPath, imp.lineNumber]), [
+      ["@/schema", 1],
+      ["./schema", 2],
+    ]);
+  } finally {
+    await Deno.remove(tempDir, { recursive: true });
+  }
+});
+
+Deno.test("should resolve npm: specifiers mapped in deno.json", async () => {
+  const tempDir = await Deno.makeTempDir();
+
+  try {
+    await Deno.writeTextFile(
+      join(tempDir, "deno.json"),
+      JSON.stringify({ imports: { "react": "npm:preact@^10/compat" } }),
+    );
+    await Deno.mkdir(join(tempDir, "node_modules/preact/compat"), {
+      recursive: true,
+    });
+    await Deno.writeTextFile(
+      join(tempDir, "node_modules/preact/package.json"),
+      JSON.stringify({ exports: { "./compat": "./compat/index.js" } }),
+    );
+    await Deno.writeTextFile(
+      join(tempDir, "node_modules/preact/compat/index.js"),
+      "",
+    );
+    await Deno.writeTextFile(
+      join(tempDir, "app.ts"),
+      'import React from "react";\nimport { h } from "npm:preact/compat";\n',
+    );
+
+    const realDir = await Deno.realPath(tempDir);
+    const target = join(realDir, "node_modules/preact/compat/index.js");
+    const importers = await findImporters(
+      target,
+      [join(tempDir, "app.ts")],
+      tempDir,
+    );
+
+    assertEquals(importers.map((imp) => imp.importPath), [
+      "react",
+      "npm:preact/compat",
+    ]);
+  } finally {
+    await Deno.remove(tempDir, { recursive: true });
+  }
+});
+
+Deno.test("should name the registry packages of npm: and jsr: specifiers", () => {
+  const importMap = {
+    imports: { "react": "npm:preact@^10/compat", "./local.ts": "./other.ts" },
+    configPath: "/repo/deno.json",
+  };
+
+  assertEquals(
+    resolveRegistryPackage("/repo/app.ts", "jsr:@std/path@^1.0.0/join"),
+    "jsr:@std/path",
+  );
+  assertEquals(
+    resolveRegistryPackage("/repo/app.ts", "react", importMap),
+    "npm:preact",
+  );
+  assertEquals(
+    resolveRegistryPackage("/repo/app.ts", "./local.ts", importMap),
+    null,
+  );
+  assertEquals(resolveRegistryPackage("/repo/app.ts", "preact"), null);
+});
+
+Deno.test("should resolve each file with its nearest tsconfig", async () => {
+  const tempDir = await Deno.makeTempDir();
+
+  try {
+    for (const pkg of ["web", "api"]) {
+      await Deno.mkdir(join(tempDir, pkg, "src"), { recursive: true });
+      await Deno.writeTextFile(
+        join(tempDir, pkg, "tsconfig.json"),
+        JSON.stringify({ compilerOptions: { paths: { "@/*": ["./src/*"] } } }),
+      );
+      await Deno.writeTextFile(join(tempDir, pkg, "src/util.ts"), "");
+      await Deno.writeTextFile(
+        join(tempDir, pkg, "src/main.ts"),
+        'import "@/util";\n',
+      );
+    }
+    const files = [
+      join(tempDir, "web/src/main.ts"),
+      join(tempDir, "api/src/main.ts"),
+    ];
+
+    const importers = await findImporters(
+      join(tempDir, "web/src/util.ts"),
+      files,
+      tempDir,
+    );
+    assertEquals(importers.map((imp) => imp.sourceFile), [
+      join(tempDir, "web/src/main.ts"),
+    ]);
+
+    const forced = await findImporters(
+      join(tempDir, "web/src/util.ts"),
+      files,
+      tempDir,
+      { config: join(tempDir, "web/tsconfig.json") },
+    );
+    assertEquals(forced.map((imp) => imp.sourceFile), files);
+  } finally {
+    await Deno.remove(tempDir, { recursive: true });
+  }
+});
+
+Deno.test("should find importers in other workspace packages", async () => {
+  const tempDir = await Deno.makeTempDir();
+
+  try {
+    await Deno.writeTextFile(
+      join(tempDir, "package.json"),
+      JSON.stringify({ workspaces: ["packages/*"] }),
+    );
+    await Deno.mkdir(join(tempDir, "packages/mytypes"), { recursive: true });
+    await Deno.mkdir(join(tempDir, "packages/app"), { recursive: true });
+    await Deno.writeTextFile(
+      join(tempDir, "packages/mytypes/package.json"),
+      JSON.stringify({ name: "@acme/mytypes" }),
+    );
+    await Deno.writeTextFile(join(tempDir, "packages/mytypes/types.ts"), "");
+    await Deno.writeTextFile(
+      join(tempDir, "packages/app/main.ts"),
+      'import type { SomeType } from "@acme/mytypes/types";\n',
+    );
+
+    const importers = await findImporters(
+      join(tempDir, "packages/mytypes/types.ts"),
+      [join(tempDir, "packages/app/main.ts")],
+      tempDir,
+    );
+    assertEquals(importers.map((imp) => imp.sourceFile), [
+      join(tempDir, "packages/app/main.ts"),
+    ]);
+  } finally {
+    await Deno.remove(tempDir, { recursive: true });
+  }
+});
+
+Deno.test("should explain every step of a resolution", async () => {
+  const tempDir = await Deno.makeTempDir();
+
+  try {
+    await Deno.writeTextFile(
+      join(tempDir, "deno.json"),
+      JSON.stringify({ imports: { "@/": "./src/" } }),
+    );
+    await Deno.mkdir(join(tempDir, "src/ui"), { recursive: true });
+    await Deno.writeTextFile(join(tempDir, "src/ui/index.ts"), "");
+    await Deno.writeTextFile(
+      join(tempDir, "main.ts"),
+      'const ui = require("@/ui.js");\n',
+    );
+
+    const explanation = await explainImportPath(
+      join(tempDir, "main.ts"),
+      "@/ui.js",
+    );
+    assertEquals(explanation.importMap, join(tempDir, "deno.json"));
+    assertEquals(explanation.steps.slice(0, 4), [
+      { message: "imported on line 1 (commonjs, runtime)" },
+      {
+        message: `import map entry "@/" maps it to ${
+          join(tempDir, "src/ui.js")
+        }`,
+      },
+      { message: "try", path: join(tempDir, "src/ui.js"), exists: false },
+      { message: "try", path: join(tempDir, "src/ui.ts"), exists: false },
+    ]);
+    assertEquals(explanation.resolvedPath, join(tempDir, "src/ui.js"));
+    assertEquals(explanation.exists, false);
+
+    const missing = await explainImportPath(
+      join(tempDir, "main.ts"),
+      "left-pad",
+    );
+    assertEquals(missing.steps.at(-1), {
+      message: "package not installed in node_modules or subpath not exported",
+    });
+    assertEquals(missing.resolvedPath, null);
+  } finally {
+    await Deno.remove(tempDir, { recursive: true });
+  }
+});
+
+Deno.test("should find importers of remote modules and URL prefixes", async () => {
+  const tempDir = await Deno.makeTempDir();
+
+  try {
+    await Deno.writeTextFile(
+      join(tempDir, "deno.json"),
+      JSON.stringify({
+        imports: { "@std/": "https://deno.land/std@0.224.0/" },
+      }),
+    );
+    await Deno.writeTextFile(
+      join(tempDir, "a.ts"),
+      'import { join } from "https://deno.land/std@0.224.0/path/mod.ts";\n',
+    );
+    await Deno.writeTextFile(
+      join(tempDir, "b.ts"),
+      'import { assert } from "@std/assert/mod.ts";\n' +
+        'import { x } from "https://deno.land/std@0.200.0/path/mod.ts";\n',
+    );
+    await Deno.writeTextFile(
+      join(tempDir, "c.ts"),
+      'import { format } from "https://deno.land/x/lib@1.0.0/mod.ts";\n',
+    );
+    const files = ["a.ts", "b.ts", "c.ts"].map((file) => join(tempDir, file));
+
+    const importers = await findImporters(
+      "https://deno.land/std@0.224.0",
+      files,
+      tempDir,
+    );
+    assertEquals(importers.map((imp) => imp.sourceFile), [
+      join(tempDir, "a.ts"),
+      join(tempDir, "b.ts"),
+    ]);
+    assertEquals(
+      importers[1].resolvedPath,
+      "https://deno.land/std@0.224.0/assert/mod.ts",
+    );
+
+    // Through the remote modules cached by Deno
+    const denoDir = join(tempDir, "deno_dir");
+    const cachePath = await denoCachePath(
+      "https://deno.land/x/lib@1.0.0/mod.ts",
+      denoDir,
+    );
+    await Deno.mkdir(dirname(cachePath), { recursive: true });
+    await Deno.writeTextFile(
+      cachePath,
+      'export * from "https://deno.land/std@0.224.0/fmt/colors.ts";\n',
+    );
+
+    const followed = await findImporters(
+      "https://deno.land/std@0.224.0/fmt",
+      files,
+      tempDir,
+      { followRemote: true, denoDir },
+    );
+    assertEquals(followed.map((imp) => [imp.sourceFile, imp.via]), [
+      [join(tempDir, "c.ts"), ["https://deno.land/x/lib@1.0.0/mod.ts"]],
+    ]);
+  } finally {
+    await Deno.remove(tempDir, { recursive: true });
+  }
+});
+
+Deno.test("should resolve with the aliases, extensions and main files of .whoimportme.json", async () => {
+  const tempDir = await Deno.makeTempDir();
+
+  try {
+    await Deno.mkdir(join(tempDir, "src/lib/store"), { recursive: true });
+    await Deno.writeTextFile(
+      join(tempDir, ".whoimportme.json"),
+      JSON.stringify({
+        resolve: {
+          alias: { "~": "./src", "$lib": ["./missing", "./src/lib"] },
+          extensions: [".web.ts", "..."],
+          mainFiles: ["main"],
+        },
+      }),
+    );
+    await Deno.writeTextFile(join(tempDir, "src/button.web.ts"), "");
+    await Deno.writeTextFile(join(tempDir, "src/lib/store/main.ts"), "");
+    await Deno.writeTextFile(
+      join(tempDir, "app.ts"),
+      'import "~/button";\nimport "$lib/store";\n',
+    );
+    const files = [join(tempDir, "app.ts")];
+
+    const buttonImporters = await findImporters(
+      join(tempDir, "src/button.web.ts"),
+      files,
+      tempDir,
+    );
+    assertEquals(buttonImporters.map((imp) => imp.importPath), ["~/button"]);
+
+    // The target itself is found with the configured extensions
+    const storeImporters = await findImporters(
+      join(tempDir, "src/lib/store/main"),
+      files,
+      tempDir,
+    );
+    assertEquals(storeImporters.map((imp) => imp.importPath), ["$lib/store"]);
+
+    // Aliases with no existing target leave the import unresolved
+    assertEquals(
+      resolveImportPath(join(tempDir, "app.ts"), "$lib/gone", null, null, {
+        resolverConfig: {
+          configPath: join(tempDir, ".whoimportme.json"),
+          alias: { "$lib": ["./missing", "./src/lib"] },
+        },
+      }),
+      null,
+    );
+  } finally {
+    await Deno.remove(tempDir, { recursive: true });
+  }
+});
+
+Deno.test("should match imports through symlinks and whole directory names", async () => {
+  const tempDir = await Deno.realPath(await Deno.makeTempDir());
+
+  try {
+    // A directory linked into the app, as linked workspace packages are
+    await Deno.mkdir(join(tempDir, "packages/ui/src"), { recursive: true });
+    await Deno.writeTextFile(join(tempDir, "packages/ui/src/button.ts"), "");
+    await Deno.mkdir(join(tempDir, "app"), { recursive: true });
+    await Deno.symlink(join(tempDir, "packages/ui"), join(tempDir, "app/ui"));
+    await Deno.writeTextFile(
+      join(tempDir, "app/main.ts"),
+      'import "./ui/src/button.ts";\nimport "../src/utils2/format.ts";\n',
+    );
+    await Deno.mkdir(join(tempDir, "src/util"), { recursive: true });
+    await Deno.mkdir(join(tempDir, "src/utils2"), { recursive: true });
+    await Deno.writeTextFile(join(tempDir, "src/utils2/format.ts"), "");
+    const files = [join(tempDir, "app/main.ts")];
+
+    const importers = await findImporters(
+      join(tempDir, "packages/ui/src/button.ts"),
+      files,
+      tempDir,
+      { realPaths: true },
+    );
+    assertEquals(importers.length, 1);
+    assertEquals(
+      importers[0].resolvedPath,
+      join(tempDir, "app/ui/src/button.ts"),
+    );
+    assertEquals(
+      importers[0].realPath,
+      join(tempDir, "packages/ui/src/button.ts"),
+    );
+
+    const directory = await findDirectoryImporters(
+      join(tempDir, "src/util"),
+      files,
+      tempDir,
+    );
+    assertEquals(directory.count, 0);
+  } finally {
+    await Deno.remove(tempDir, { recursive: true });
+  }
+});
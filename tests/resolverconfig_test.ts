@@ -0,0 +1,84 @@
+import {
+  assertEquals,
+  assertRejects,
+} from "https://deno.land/std@0.224.0/assert/mod.ts";
+import { join } from "https://deno.land/std@0.224.0/path/mod.ts";
+import {
+  matchAlias,
+  readResolverConfig,
+  RESOLVE_EXTENSIONS,
+} from "../src/resolverconfig.ts";
+
+Deno.test("should read the resolve section of .whoimportme.json", async () => {
+  const tempDir = await Deno.makeTempDir();
+
+  try {
+    const path = join(tempDir, ".whoimportme.json");
+    await Deno.writeTextFile(
+      path,
+      `{
+        // Mirrors vite.config.ts
+        "resolve": {
+          "alias": { "@": "./src" },
+          "extensions": [".web.ts", "..."],
+          "conditions": ["browser"],
+        },
+      }`,
+    );
+    assertEquals(await readResolverConfig(path), {
+      configPath: path,
+      alias: { "@": "./src" },
+      extensions: [".web.ts", ...RESOLVE_EXTENSIONS],
+      mainFiles: undefined,
+      conditions: ["browser"],
+    });
+
+    await Deno.writeTextFile(path, JSON.stringify({ other: true }));
+    assertEquals(await readResolverConfig(path), null);
+
+    await Deno.writeTextFile(
+      path,
+      JSON.stringify({ resolve: { extensions: ".ts" } }),
+    );
+    await assertRejects(
+      () => readResolverConfig(path),
+      Error,
+      '"resolve.extensions" must be an array of strings',
+    );
+  } finally {
+    await Deno.remove(tempDir, { recursive: true });
+  }
+});
+
+Deno.test("should match aliases in declaration order", () => {
+  const config = {
+    alias: {
+      "react$": "preact/compat",
+      "~": "./src",
+      "$lib": ["./src/lib", "./vendor/lib"],
+      "@": "/abs/src/",
+    },
+  };
+
+  assertEquals(matchAlias(config, "~/utils/format", "/repo"), {
+    key: "~",
+    candidates: ["/repo/src/utils/format"],
+  });
+  assertEquals(matchAlias(config, "$lib", "/repo"), {
+    key: "$lib",
+    candidates: ["/repo/src/lib", "/repo/vendor/lib"],
+  });
+  assertEquals(matchAlias(config, "@/button", "/repo"), {
+    key: "@",
+    candidates: ["/abs/src/button"],
+  });
+  assertEquals(matchAlias(config, "react", "/repo"), {
+    key: "react$",
+    candidates: ["preact/compat"],
+  });
+
+  // Exact aliases and aliases of other names do not match
+  assertEquals(matchAlias(config, "react/jsx-runtime", "/repo"), null);
+  assertEquals(matchAlias(config, "~utils", "/repo"), null);
+  assertEquals(matchAlias(config, "@scope/pkg", "/repo"), null);
+});
@@ -5,6 +5,19 @@
 import "./cli_test.ts";
 import "./scanner_test.ts";
 import "./resolver_test.ts";
+import "./packages_test.ts";
+import "./tsconfig_test.ts";
+import "./importmap_test.ts";
+import "./config_test.ts";
+import "./workspaces_test.ts";
+import "./remote_test.ts";
+import "./resolverconfig_test.ts";
+import "./paths_test.ts";
+import "./graph_test.ts";
+import "./entries_test.ts";
+import "./lexer_test.ts";
+import "./parser_test.ts";
+import "./extractors_test.ts";
 import "./output_test.ts";
 import "./integration_test.ts";
 import "./edge_case_test.ts";
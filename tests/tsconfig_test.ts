@@ -0,0 +1,106 @@
+import { assertEquals } from "https://deno.land/std@0.224.0/assert/mod.ts";
+import { join } from "https://deno.land/std@0.224.0/path/mod.ts";
+import { parseJsonc } from "../src/jsonc.ts";
+import {
+  readTsConfig,
+  rootDirsCandidates,
+  tsConfigPathCandidates,
+} from "../src/tsconfig.ts";
+
+Deno.test("should parse JSON with comments and trailing commas", () => {
+  const text = `{
+    // line comment
+    "a": "http://example.com/*not a comment*/", /* block */
+    "b": [1, 2,],
+  }`;
+
+  assertEquals(parseJsonc(text), {
+    a: "http://example.com/*not a comment*/",
+    b: [1, 2],
+  });
+});
+
+Deno.test("should merge extends chains relative to each config", async () => {
+  const tempDir = await Deno.makeTempDir();
+
+  try {
+    await Deno.mkdir(join(tempDir, "config"));
+    await Deno.mkdir(join(tempDir, "node_modules/@org/tsconfig"), {
+      recursive: true,
+    });
+    await Deno.writeTextFile(
+      join(tempDir, "node_modules/@org/tsconfig/package.json"),
+      JSON.stringify({ tsconfig: "./base.json" }),
+    );
+    await Deno.writeTextFile(
+      join(tempDir, "node_modules/@org/tsconfig/base.json"),
+      JSON.stringify({ compilerOptions: { rootDirs: ["src", "generated"] } }),
+    );
+    await Deno.writeTextFile(
+      join(tempDir, "config/base.json"),
+      `{
+        // Paths are relative to this file without baseUrl
+        "compilerOptions": { "paths": { "@lib/*": ["../lib/*"] }, },
+      }`,
+    );
+    await Deno.writeTextFile(
+      join(tempDir, "tsconfig.json"),
+      JSON.stringify({ extends: ["@org/tsconfig", "./config/base"] }),
+    );
+
+    const realDir = await Deno.realPath(tempDir);
+    const tsConfig = await readTsConfig(join(tempDir, "tsconfig.json"));
+    assertEquals(tsConfig.configPath, join(tempDir, "tsconfig.json"));
+    assertEquals(tsConfig.compilerOptions?.pathsBasePath, "config");
+    assertEquals(
+      tsConfig.compilerOptions?.rootDirs?.map((dir) => join(tempDir, dir)),
+      [
+        join(realDir, "node_modules/@org/tsconfig/src"),
+        join(realDir, "node_modules/@org/tsconfig/generated"),
+      ],
+    );
+    assertEquals(tsConfigPathCandidates(tsConfig, "@lib/a", tempDir), [
+      join(tempDir, "lib/a"),
+    ]);
+  } finally {
+    await Deno.remove(tempDir, { recursive: true });
+  }
+});
+
+Deno.test("should list every paths substitution of the best pattern", () => {
+  const tsConfig = {
+    compilerOptions: {
+      baseUrl: "src",
+      paths: {
+        "*": ["*", "generated/*"],
+        "@app/*": ["app/*", "legacy/app/*"],
+        "@app/config": ["config/index"],
+      },
+    },
+  };
+
+  assertEquals(tsConfigPathCandidates(tsConfig, "@app/ui/button", "/repo"), [
+    "/repo/src/app/ui/button",
+    "/repo/src/legacy/app/ui/button",
+  ]);
+  assertEquals(tsConfigPathCandidates(tsConfig, "@app/config", "/repo"), [
+    "/repo/src/config/index",
+  ]);
+  assertEquals(tsConfigPathCandidates(tsConfig, "lodash", "/repo"), [
+    "/repo/src/lodash",
+    "/repo/src/generated/lodash",
+  ]);
+  assertEquals(tsConfigPathCandidates({}, "lodash", "/repo"), []);
+});
+
+Deno.test("should map paths between rootDirs", () => {
+  const tsConfig = {
+    compilerOptions: { rootDirs: ["src", "generated", "src/views"] },
+  };
+
+  assertEquals(
+    rootDirsCandidates(tsConfig, "/repo/src/views/template", "/repo"),
+    ["/repo/src/template", "/repo/generated/template"],
+  );
+  assertEquals(rootDirsCandidates(tsConfig, "/repo/srcs/a", "/repo"), []);
+});
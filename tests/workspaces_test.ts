@@ -0,0 +1,98 @@
+import { assertEquals } from "https://deno.land/std@0.224.0/assert/mod.ts";
+import { join } from "https://deno.land/std@0.224.0/path/mod.ts";
+import { findWorkspace, resolveWorkspaceSpecifier } from "../src/workspaces.ts";
+
+Deno.test("should read npm workspaces and honor member exports", async () => {
+  const tempDir = await Deno.makeTempDir();
+
+  try {
+    await Deno.writeTextFile(
+      join(tempDir, "package.json"),
+      JSON.stringify({ workspaces: ["packages/*", "!packages/legacy"] }),
+    );
+    for (const name of ["ui", "utils", "legacy"]) {
+      await Deno.mkdir(join(tempDir, "packages", name, "src"), {
+        recursive: true,
+      });
+    }
+    await Deno.writeTextFile(
+      join(tempDir, "packages/ui/package.json"),
+      JSON.stringify({
+        name: "@acme/ui",
+        exports: { ".": "./src/index.ts", "./*": "./src/*.tsx" },
+      }),
+    );
+    await Deno.writeTextFile(
+      join(tempDir, "packages/utils/package.json"),
+      JSON.stringify({ name: "@acme/utils" }),
+    );
+    await Deno.writeTextFile(
+      join(tempDir, "packages/legacy/package.json"),
+      JSON.stringify({ name: "@acme/legacy" }),
+    );
+
+    const workspace = findWorkspace(join(tempDir, "packages/ui/src"));
+    assertEquals(workspace?.root, tempDir);
+    assertEquals([...workspace!.members.keys()].sort(), [
+      "@acme/ui",
+      "@acme/utils",
+    ]);
+
+    const importer = join(tempDir, "packages/utils/src/a.ts");
+    assertEquals(
+      resolveWorkspaceSpecifier(importer, "@acme/ui/button", ["import"]),
+      join(tempDir, "packages/ui/src/button.tsx"),
+    );
+    assertEquals(
+      resolveWorkspaceSpecifier(importer, "@acme/utils/src/format", ["import"]),
+      join(tempDir, "packages/utils/src/format"),
+    );
+    assertEquals(
+      resolveWorkspaceSpecifier(importer, "@acme/legacy", ["import"]),
+      null,
+    );
+  } finally {
+    await Deno.remove(tempDir, { recursive: true });
+  }
+});
+
+Deno.test("should read pnpm and Deno workspaces", async () => {
+  const tempDir = await Deno.makeTempDir();
+
+  try {
+    await Deno.mkdir(join(tempDir, "pnpm/apps/web"), { recursive: true });
+    await Deno.writeTextFile(
+      join(tempDir, "pnpm/pnpm-workspace.yaml"),
+      "packages:\n  # Applications\n  - 'apps/**'\ncatalog:\n  react: ^18\n",
+    );
+    await Deno.writeTextFile(
+      join(tempDir, "pnpm/apps/web/package.json"),
+      JSON.stringify({ name: "web" }),
+    );
+
+    await Deno.mkdir(join(tempDir, "deno/libs/path"), { recursive: true });
+    await Deno.writeTextFile(
+      join(tempDir, "deno/deno.jsonc"),
+      '{ "workspace": ["./libs/path"], }',
+    );
+    await Deno.writeTextFile(
+      join(tempDir, "deno/libs/path/deno.json"),
+      JSON.stringify({ name: "@scope/path", exports: "./mod.ts" }),
+    );
+
+    assertEquals(
+      [...findWorkspace(join(tempDir, "pnpm"))!.members.keys()],
+      ["web"],
+    );
+    assertEquals(
+      resolveWorkspaceSpecifier(
+        join(tempDir, "deno/main.ts"),
+        "@scope/path",
+        ["import"],
+      ),
+      join(tempDir, "deno/libs/path/mod.ts"),
+    );
+  } finally {
+    await Deno.remove(tempDir, { recursive: true });
+  }
+});